@@ -0,0 +1,50 @@
+// cli/config.test.ts
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { ConfigError, loadConfig, parseConfig } from "./config";
+
+describe("loadConfig", () => {
+  it("YAML 파일을 읽어 PipelineState로", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "ailab-config-"));
+    const path = join(dir, "lab.yaml");
+    await writeFile(path, "os: ubuntu\nmodules: [dev.git]\n");
+    await expect(loadConfig(path)).resolves.toMatchObject({
+      os: "ubuntu",
+      selectedIds: ["dev.git"],
+      onError: "stop",
+    });
+  });
+
+  it("없는 파일은 ConfigError (스택 대신 한 줄)", async () => {
+    const err = await loadConfig("missing.json").catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ConfigError);
+    expect((err as Error).message).toBe(
+      "설정 파일을 읽을 수 없습니다: missing.json (ENOENT)"
+    );
+  });
+});
+
+describe("parseConfig", () => {
+  const yaml = (extra: string) =>
+    parseConfig(`os: ubuntu\nmodules: [dev.git]\n${extra}`, "yaml");
+
+  it("onError: stop / continue만 허용 (오타는 ConfigError)", () => {
+    expect(yaml("onError: continue\n").onError).toBe("continue");
+    expect(yaml("onError: stop\n").onError).toBe("stop");
+    expect(() => yaml("onError: contiue\n")).toThrow(
+      new ConfigError("onError 값이 잘못되었습니다: contiue (stop | continue)")
+    );
+  });
+
+  it("vars는 객체만 (목록 / 문자열은 ConfigError)", () => {
+    expect(yaml("vars: { git_name: 1 }\n").vars).toEqual({
+      "dev.git_config.git_name": "1",
+    });
+    for (const bad of ["vars: [a, b]\n", "vars: git_name\n"]) {
+      expect(() => yaml(bad)).toThrow(ConfigError);
+    }
+  });
+});
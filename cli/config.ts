@@ -0,0 +1,88 @@
+// cli/config.ts
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+import {
+  isOS,
+  namespaceVars,
+  parsePolicies,
+  type PipelineState,
+} from "../src/core/pipelineState";
+import type { OnErrorMode } from "../src/core/scriptRuntime";
+
+/**
+ * 파이프라인 설정 파일 (JSON / YAML 동일 구조)
+ *
+ *   os: ubuntu
+ *   modules: [dev.git, lang.uv]
+ *   vars: { dev.git_config.git_name: ChoiJS }   # 모듈 하나뿐인 key면 git_name: 도 됨
+ *   policies: { dev.git: overwrite }
+ *   onError: continue   # 선택 (기본 stop)
+ */
+export class ConfigError extends Error {}
+
+export type CliConfig = PipelineState & { onError?: OnErrorMode };
+
+export function parseConfig(text: string, format: "json" | "yaml"): CliConfig {
+  let raw: unknown;
+  try {
+    raw = format === "json" ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    throw new ConfigError(`설정 파일 파싱 실패: ${(e as Error).message}`);
+  }
+  if (!raw || typeof raw !== "object") {
+    throw new ConfigError("설정 파일 최상위는 객체여야 합니다.");
+  }
+
+  const c = raw as Record<string, unknown>;
+  if (!isOS(c.os)) {
+    throw new ConfigError(`os 값이 잘못되었습니다: ${String(c.os)}`);
+  }
+  if (
+    !Array.isArray(c.modules) ||
+    c.modules.some((m) => typeof m !== "string")
+  ) {
+    throw new ConfigError("modules는 모듈 id 문자열 배열이어야 합니다.");
+  }
+  const vars = c.vars ?? {};
+  if (typeof vars !== "object" || Array.isArray(vars)) {
+    throw new ConfigError("vars는 key: 값 객체여야 합니다.");
+  }
+  const onError = c.onError ?? "stop";
+  if (onError !== "stop" && onError !== "continue") {
+    throw new ConfigError(
+      `onError 값이 잘못되었습니다: ${String(onError)} (stop | continue)`
+    );
+  }
+
+  return {
+    os: c.os,
+    selectedIds: c.modules as string[],
+    // YAML에서 숫자/불리언으로 읽힌 값도 문자열로
+    vars: namespaceVars(
+      Object.fromEntries(
+        Object.entries(vars as Record<string, unknown>).map(([k, v]) => [
+          k,
+          v === null || v === undefined ? "" : String(v),
+        ])
+      )
+    ),
+    policies: parsePolicies(c.policies),
+    onError,
+  };
+}
+
+export async function loadConfig(path: string): Promise<CliConfig> {
+  const ext = extname(path).toLowerCase();
+  const format = ext === ".yaml" || ext === ".yml" ? "yaml" : "json";
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (e) {
+    throw new ConfigError(
+      `설정 파일을 읽을 수 없습니다: ${path} (${(e as NodeJS.ErrnoException).code ?? (e as Error).message})`
+    );
+  }
+  return parseConfig(text, format);
+}
@@ -0,0 +1,221 @@
+// cli/main.ts
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+import { planBundle } from "../src/core/bundlePlan";
+import { hasErrors } from "../src/core/diagnostics";
+import { generateScript } from "../src/core/generateScript";
+import { lintRegistry } from "../src/core/lintRegistry";
+import { isOS } from "../src/core/pipelineState";
+import { isSupportedOn, requiresFor } from "../src/core/resolveDeps";
+import { inputId, LATEST } from "../src/core/validateInputs";
+import { type ModuleDef, MODULES } from "../src/registry/modules";
+import { type OS, OS_LIST } from "../src/registry/os";
+import { ConfigError, loadConfig } from "./config";
+
+const USAGE = `Usage:
+  npm run cli -- generate <config.json|yaml> [-o <out.sh>]
+  npm run cli -- bundle <config.json|yaml> [-o <fetch.sh>]
+  npm run cli -- list [--os <${OS_LIST.join("|")}>]
+  npm run cli -- describe <module-id>
+  npm run cli -- lint`;
+
+/** 사용법 오류: exit 2 */
+class UsageError extends Error {}
+
+async function cmdGenerate(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { out: { type: "string", short: "o" } },
+  });
+  const configPath = positionals[0];
+  if (!configPath) throw new UsageError("config 파일 경로가 필요합니다.");
+
+  const config = await loadConfig(configPath);
+  const result = generateScript(config);
+
+  for (const d of result.diagnostics) {
+    console.error(`[${d.severity.toUpperCase()}] ${d.moduleId}: ${d.message}`);
+  }
+  if (hasErrors(result.diagnostics)) return 1;
+
+  if (values.out) {
+    await writeFile(values.out, result.script, { mode: 0o755 });
+    console.error(
+      `[OK] ${values.out} (${result.includedIds.length} modules: ${result.includedIds.join(", ")})`
+    );
+  } else {
+    process.stdout.write(result.script);
+  }
+  return 0;
+}
+
+/** 오프라인 번들: 받을 목록은 stderr, fetch 스크립트는 stdout / -o */
+async function cmdBundle(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { out: { type: "string", short: "o" } },
+  });
+  const configPath = positionals[0];
+  if (!configPath) throw new UsageError("config 파일 경로가 필요합니다.");
+
+  const config = await loadConfig(configPath);
+  const result = planBundle(config);
+
+  for (const d of result.diagnostics) {
+    console.error(`[${d.severity.toUpperCase()}] ${d.moduleId}: ${d.message}`);
+  }
+  if (hasErrors(result.diagnostics)) return 1;
+
+  for (const a of result.artifacts) {
+    console.error(
+      `  ${a.moduleId} ${a.kind}: ${a.source}${a.path ? ` -> ${a.path}` : ""}`
+    );
+  }
+  if (values.out) {
+    await writeFile(values.out, result.fetchScript, { mode: 0o755 });
+    console.error(`[OK] ${values.out} (${result.artifacts.length} artifacts)`);
+  } else {
+    process.stdout.write(result.fetchScript);
+  }
+  return 0;
+}
+
+function cmdList(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: { os: { type: "string" } },
+  });
+  if (values.os !== undefined && !isOS(values.os)) {
+    throw new UsageError(`알 수 없는 OS: ${values.os}`);
+  }
+  const os = values.os as OS | undefined;
+
+  const modules = os ? MODULES.filter((m) => isSupportedOn(m, os)) : MODULES;
+  const width = Math.max(...modules.map((m) => m.id.length));
+  const lines = modules.map((m) => `${m.id.padEnd(width)}  ${m.name}\n`);
+  process.stdout.write(lines.join(""));
+  return 0;
+}
+
+function describe(m: ModuleDef): string {
+  const os = OS_LIST.filter((o) => isSupportedOn(m, o));
+  const lines = [
+    `${m.id} - ${m.name}`,
+    `  ${m.shortDesc}`,
+    `  category: ${m.category.join(", ")}`,
+    `  tags:     ${m.tags.join(", ")}`,
+    `  os:       ${os.join(", ")}`,
+    `  policy:   ${m.defaultPolicy ?? "skip"}`,
+  ];
+  for (const o of os) {
+    const deps = requiresFor(m, o);
+    if (deps.length) lines.push(`  requires (${o}): ${deps.join(", ")}`);
+  }
+  for (const s of m.suggests ?? []) {
+    lines.push(`  suggests: ${s.id} - ${s.reason}`);
+  }
+  for (const inp of m.inputs ?? []) {
+    lines.push(
+      `  input:    ${inputId(m.id, inp.key)}${inp.required ? " (required)" : ""} - ${inp.label}` +
+        (inp.pin
+          ? ` [${[...inp.pin.versions, LATEST].join(" | ")}, default ${inp.defaultValue ?? LATEST}]`
+          : "") +
+        (inp.sameAs ? ` (비우면 ${inp.sameAs})` : "")
+    );
+  }
+  for (const d of m.derived ?? []) {
+    lines.push(`  derived:  ${d.key} - ${d.desc}`);
+  }
+  for (const [name, d] of Object.entries(m.downloads ?? {})) {
+    const hashes =
+      typeof d.sha256 === "string" ? 1 : Object.keys(d.sha256 ?? {}).length;
+    lines.push(
+      `  download: ${name} - ${d.url} (${hashes ? `sha256 ${hashes}개` : "미검증"})` +
+        (typeof d.unverified === "string" ? ` - ${d.unverified}` : "")
+    );
+  }
+  for (const [o, reason] of Object.entries(m.notSupportedReason ?? {})) {
+    lines.push(`  not on ${o}: ${reason}`);
+  }
+  for (const a of m.offline?.artifacts ?? []) {
+    const urls = typeof a.url === "string" ? [a.url] : Object.values(a.url);
+    lines.push(`  offline:  ${a.name} - ${urls.join(", ")}`);
+  }
+  if (m.offline?.fetch) lines.push(`  offline:  ${m.offline.fetch.desc}`);
+  for (const [o, reason] of Object.entries(
+    m.offline?.notSupportedReason ?? {}
+  )) {
+    lines.push(`  not offline on ${o}: ${reason}`);
+  }
+  return lines.join("\n");
+}
+
+function cmdDescribe(args: string[]): number {
+  const id = args[0];
+  if (!id) throw new UsageError("module id가 필요합니다.");
+  const mod = MODULES.find((m) => m.id === id);
+  if (!mod) {
+    console.error(`알 수 없는 모듈 id: ${id}`);
+    return 1;
+  }
+  console.log(describe(mod));
+  return 0;
+}
+
+/** registry 일관성 검사: 문제가 있으면 exit 1 */
+function cmdLint(): number {
+  const issues = lintRegistry(MODULES);
+  for (const i of issues) {
+    console.error(`[${i.kind}] ${i.moduleId}: ${i.message}`);
+  }
+  if (issues.length) return 1;
+  console.error(`[OK] ${MODULES.length} modules`);
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [cmd, ...rest] = argv;
+  try {
+    switch (cmd) {
+      case "generate":
+        return await cmdGenerate(rest);
+      case "bundle":
+        return await cmdBundle(rest);
+      case "list":
+        return cmdList(rest);
+      case "describe":
+        return cmdDescribe(rest);
+      case "lint":
+        return cmdLint();
+      case undefined:
+      case "help":
+      case "--help":
+      case "-h":
+        console.log(USAGE);
+        return cmd ? 0 : 2;
+      default:
+        throw new UsageError(`알 수 없는 명령: ${cmd}`);
+    }
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (e instanceof ConfigError) {
+      console.error(e.message);
+      return 1;
+    }
+    throw e;
+  }
+}
+
+// `list | head` 처럼 읽는 쪽이 먼저 닫히면 스택 트레이스 없이 조용히 종료
+process.stdout.on("error", (e: NodeJS.ErrnoException) => {
+  if (e.code === "EPIPE") process.exit(0);
+  throw e;
+});
+
+process.exitCode = await main(process.argv.slice(2));
@@ -2,116 +2,291 @@
 import { useEffect, useMemo, useState } from "react";
 import "./App.css";
 
-import { generateScript } from "./core/generateScript";
-import { type ModuleDef, MODULES, type OS } from "./registry/modules";
+import BundleView from "./components/BundleView";
+import ModuleBrowser from "./components/ModuleBrowser";
+import PresetBar from "./components/PresetBar";
+import RiskBadges from "./components/RiskBadges";
+import RunReportView from "./components/RunReportView";
+import UninstallView from "./components/UninstallView";
+import { effectivePolicy, generateScript } from "./core/generateScript";
+import { hasErrors } from "./core/diagnostics";
+import {
+  LEGACY_STORAGE_KEY,
+  restorePersistedState,
+  type RestoredState,
+  serializePersistedState,
+  STORAGE_KEY,
+} from "./core/persistedState";
+import type { PipelineState } from "./core/pipelineState";
+import { installCheckFor } from "./core/osSupport";
+import {
+  isSupportedOn,
+  normalizeOrder,
+  type OrderViolation,
+} from "./core/resolveDeps";
+import {
+  decodeShareState,
+  encodeShareState,
+  readShareHash,
+  shareUrl,
+} from "./core/shareLink";
+import type { OnErrorMode } from "./core/scriptRuntime";
+import { collectSuggestions } from "./core/suggestions";
+import { inputId, LATEST } from "./core/validateInputs";
+import {
+  type InputDef,
+  type ModuleDef,
+  MODULE_BY_ID,
+  MODULES,
+  type OverwritePolicy,
+} from "./registry/modules";
+import { type OS, OS_INFO, OS_LIST } from "./registry/os";
 
 type Vars = Record<string, string>;
+type Policies = Record<string, OverwritePolicy>;
 
-function buildVarsFromInputs(selected: ModuleDef[], vars: Vars): Vars {
-  // required input 없으면 그냥 빈 값으로 둠(스크립트는 돌아가게)
-  const neededKeys = new Set<string>();
-  for (const m of selected) {
-    for (const inp of m.inputs ?? []) neededKeys.add(inp.key);
-  }
-  const out: Vars = { ...vars };
-  for (const k of neededKeys) {
-    if (out[k] === undefined) out[k] = "";
-  }
-  return out;
+function moduleName(id: string): string {
+  return MODULE_BY_ID.get(id)?.name ?? id;
 }
 
-const STORAGE_KEY = "ailab_install_builder_state_v1";
+/** 순서가 되돌려진 이유를 사람이 읽을 수 있게 */
+function describeViolations(violations: OrderViolation[]): string {
+  return violations
+    .map(
+      (v) =>
+        `${moduleName(v.moduleId)}은(는) ${moduleName(
+          v.requiredId
+        )}이(가) 먼저 설치되어야 해서 뒤로 이동했습니다.`
+    )
+    .join(" ");
+}
+
+/**
+ * Inputs 패널 한 줄: sensitive면 마스킹 + 보기 토글, 에러는 인라인
+ * - shared: sameAs 대상 입력이 pipeline에 있으면 비워둘 때 쓰일 값 안내
+ */
+function InputField({
+  inp,
+  owner,
+  shared,
+  value,
+  error,
+  onChange,
+}: {
+  inp: InputDef;
+  owner: string;
+  shared?: string;
+  value: string;
+  error?: string;
+  onChange: (v: string) => void;
+}) {
+  const [reveal, setReveal] = useState(false);
+  const masked = inp.sensitive && !reveal;
 
-function isOS(v: unknown): v is OS {
-  return v === "mac" || v === "ubuntu";
+  return (
+    <div className={error ? "inputRow invalid" : "inputRow"}>
+      <label>
+        {inp.label}
+        {inp.required ? <span className="required"> *</span> : null}
+        <span className="inputOwner"> · {owner}</span>
+      </label>
+      <div className="inputLine">
+        {inp.pin ? (
+          // 버전 고정: 허용 값 + latest 중에서만 고름
+          <select
+            value={value || inp.defaultValue || LATEST}
+            onChange={(e) => onChange(e.target.value)}
+          >
+            {[...inp.pin.versions, LATEST].map((v) => (
+              <option key={v} value={v}>
+                {v}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type={masked ? "password" : "text"}
+            value={value}
+            placeholder={shared ?? inp.defaultValue ?? inp.placeholder ?? ""}
+            autoComplete={inp.sensitive ? "off" : undefined}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        )}
+        {inp.sensitive ? (
+          <button type="button" onClick={() => setReveal((r) => !r)}>
+            {reveal ? "Hide" : "Show"}
+          </button>
+        ) : null}
+      </div>
+      {error ? <div className="inputError">{error}</div> : null}
+      {inp.hint ? <div className="hint">{inp.hint}</div> : null}
+    </div>
+  );
 }
 
-function loadPersistedState(): {
-  os: OS;
-  selectedIds: string[];
-  vars: Record<string, string>;
-} {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) throw new Error("no saved state");
-    const parsed = JSON.parse(raw);
-
-    return {
-      os: isOS(parsed?.os) ? parsed.os : "mac",
-      selectedIds: Array.isArray(parsed?.selectedIds) ? parsed.selectedIds : [],
-      vars: parsed?.vars && typeof parsed.vars === "object" ? parsed.vars : {},
-    };
-  } catch {
-    return { os: "mac", selectedIds: [], vars: {} };
-  }
+function loadPersistedState(): RestoredState {
+  const restored = restorePersistedState(
+    localStorage.getItem(STORAGE_KEY) ??
+      localStorage.getItem(LEGACY_STORAGE_KEY)
+  );
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return restored;
 }
 
 export default function App() {
-  const initial = loadPersistedState();
+  const [initial] = useState(loadPersistedState);
 
-  const [os, setOS] = useState<OS>(initial.os);
+  const [os, setOS] = useState<OS>(initial.state.os);
   const [query, setQuery] = useState("");
-  const [selectedIds, setSelectedIds] = useState<string[]>(initial.selectedIds);
-  const [vars, setVars] = useState<Vars>(initial.vars);
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    initial.state.selectedIds
+  );
+  const [vars, setVars] = useState<Vars>(initial.state.vars);
+  const [policies, setPolicies] = useState<Policies>(initial.state.policies);
+  const [persistSensitive, setPersistSensitive] = useState(
+    initial.persistSensitive
+  );
+  const [orderNotice, setOrderNotice] = useState<string | null>(null);
+  const [onError, setOnError] = useState<OnErrorMode>("stop");
+  const [rightTab, setRightTab] = useState<
+    "script" | "uninstall" | "bundle" | "report"
+  >("script");
+  const [notice, setNotice] = useState<string | null>(
+    initial.notices.length ? initial.notices.join(" ") : null
+  );
 
   useEffect(() => {
-    const payload = JSON.stringify({ os, selectedIds, vars });
-    localStorage.setItem("ailab_install_builder_state_v1", payload);
-  }, [os, selectedIds, vars]);
-
-  const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    if (!q) return MODULES;
-    return MODULES.filter((m) => {
-      const hay = [m.name, m.shortDesc, ...(m.tags ?? [])]
-        .join(" ")
-        .toLowerCase();
-      return hay.includes(q);
-    });
-  }, [query]);
+    const payload = serializePersistedState(
+      { os, selectedIds, vars, policies },
+      persistSensitive
+    );
+    localStorage.setItem(STORAGE_KEY, payload);
+  }, [os, selectedIds, vars, policies, persistSensitive]);
+
+  // 공유 링크(#p=...)로 열었으면 그 설정으로 복원 (localStorage보다 우선)
+  useEffect(() => {
+    const encoded = readShareHash(window.location.hash);
+    if (!encoded) return;
+    decodeShareState(encoded)
+      .then(({ state, warnings }) => {
+        setOS(state.os);
+        setVars((prev) => ({ ...prev, ...state.vars }));
+        setPolicies(state.policies);
+        setSelectedIds(
+          normalizeOrder(state.selectedIds, state.os, MODULE_BY_ID).ids
+        );
+        setNotice(["공유 링크의 설정을 불러왔습니다.", ...warnings].join(" "));
+      })
+      .catch((e: Error) => setNotice(e.message))
+      .finally(() => {
+        // 새로고침 시 다시 덮어쓰지 않도록 hash 제거
+        const { pathname, search } = window.location;
+        history.replaceState(null, "", pathname + search);
+      });
+  }, []);
 
   const selectedModules = useMemo(() => {
-    const map = new Map(MODULES.map((m) => [m.id, m]));
-    return selectedIds.map((id) => map.get(id)).filter(Boolean) as ModuleDef[];
+    return selectedIds
+      .map((id) => MODULE_BY_ID.get(id))
+      .filter(Boolean) as ModuleDef[];
   }, [selectedIds]);
 
-  const finalVars = useMemo(
-    () => buildVarsFromInputs(selectedModules, vars),
-    [selectedModules, vars]
-  );
-
   const result = useMemo(() => {
     return generateScript({
       os,
       selectedIds,
-      vars: finalVars,
+      vars,
+      policies,
+      onError,
     });
-  }, [os, selectedIds, finalVars]);
+  }, [os, selectedIds, vars, policies, onError]);
+
+  const blocked = hasErrors(result.diagnostics);
+  // 입력값 에러는 Inputs 패널에 인라인으로, 나머지는 Pipeline 위에
+  const pipelineDiagnostics = result.diagnostics.filter(
+    (d) => d.kind !== "invalid_input"
+  );
+  const inputErrors = new Map(
+    result.diagnostics
+      .filter((d) => d.kind === "invalid_input" && d.inputKey)
+      .map((d) => [d.inputKey!, d.message])
+  );
+  // 자동 포함된 의존성의 입력값도 받아야 하므로 includedIds 기준
+  // 값은 모듈마다 따로 ("<module id>.<key>")
+  const inputDefs = result.includedIds
+    .map((id) => MODULE_BY_ID.get(id))
+    .filter((m): m is ModuleDef => !!m && isSupportedOn(m, os))
+    .flatMap((mod) =>
+      (mod.inputs ?? []).map((inp) => ({
+        mod,
+        inp,
+        id: inputId(mod.id, inp.key),
+      }))
+    );
+  /** sameAs 대상이 pipeline에 있으면 그 값 (비어 있거나 sensitive면 "… 값 사용") */
+  const sharedHint = (inp: InputDef): string | undefined => {
+    const source = inputDefs.find((d) => d.id === inp.sameAs);
+    if (!source) return undefined;
+    const value = source.inp.sensitive ? "" : vars[source.id];
+    return value || `${source.mod.name} ${source.inp.label} 값 사용`;
+  };
+  const suggestions = useMemo(
+    () => collectSuggestions(result.includedIds, os, MODULE_BY_ID),
+    [result.includedIds, os]
+  );
+  const autoIncludedIds = result.includedIds.filter(
+    (id) => !selectedIds.includes(id)
+  );
+
+  /** requires 제약에 맞게 정렬해서 반영 (어긋난 이동은 되돌리고 이유 표시) */
+  const applyOrder = (next: string[], targetOS: OS = os) => {
+    const { ids, violations } = normalizeOrder(next, targetOS, MODULE_BY_ID);
+    setSelectedIds(ids);
+    setOrderNotice(violations.length ? describeViolations(violations) : null);
+  };
+
+  const changeOS = (next: OS) => {
+    setOS(next);
+    applyOrder(selectedIds, next);
+  };
+
+  const applyPipeline = (next: PipelineState) => {
+    setOS(next.os);
+    setVars(next.vars);
+    setPolicies(next.policies);
+    applyOrder(next.selectedIds, next.os);
+  };
 
   const addModule = (id: string) => {
-    setSelectedIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+    if (selectedIds.includes(id)) return;
+    applyOrder([...selectedIds, id]);
   };
 
   const removeModule = (id: string) => {
     setSelectedIds((prev) => prev.filter((x) => x !== id));
+    setPolicies((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const setPolicy = (id: string, policy: OverwritePolicy) => {
+    setPolicies((prev) => ({ ...prev, [id]: policy }));
   };
 
   const moveUp = (idx: number) => {
     if (idx <= 0) return;
-    setSelectedIds((prev) => {
-      const a = [...prev];
-      [a[idx - 1], a[idx]] = [a[idx], a[idx - 1]];
-      return a;
-    });
+    const a = [...selectedIds];
+    [a[idx - 1], a[idx]] = [a[idx], a[idx - 1]];
+    applyOrder(a);
   };
 
   const moveDown = (idx: number) => {
-    setSelectedIds((prev) => {
-      if (idx < 0 || idx >= prev.length - 1) return prev;
-      const a = [...prev];
-      [a[idx], a[idx + 1]] = [a[idx + 1], a[idx]];
-      return a;
-    });
+    if (idx < 0 || idx >= selectedIds.length - 1) return;
+    const a = [...selectedIds];
+    [a[idx], a[idx + 1]] = [a[idx + 1], a[idx]];
+    applyOrder(a);
   };
 
   const copyScript = async () => {
@@ -119,6 +294,12 @@ export default function App() {
     alert("스크립트가 클립보드에 복사됨");
   };
 
+  const copyShareLink = async () => {
+    const encoded = await encodeShareState({ os, selectedIds, vars, policies });
+    await navigator.clipboard.writeText(shareUrl(encoded));
+    alert("공유 링크가 클립보드에 복사됨 (민감한 입력값은 제외)");
+  };
+
   return (
     <div className="wrap">
       <header className="topbar">
@@ -126,12 +307,20 @@ export default function App() {
 
         <div className="osSelect">
           <label>OS</label>
-          <select value={os} onChange={(e) => setOS(e.target.value as OS)}>
-            <option value="mac">macOS</option>
-            <option value="ubuntu">Ubuntu</option>
+          <select value={os} onChange={(e) => changeOS(e.target.value as OS)}>
+            {OS_LIST.map((o) => (
+              <option key={o} value={o}>
+                {OS_INFO[o].label}
+              </option>
+            ))}
           </select>
         </div>
 
+        <PresetBar
+          state={{ os, selectedIds, vars, policies }}
+          onApply={applyPipeline}
+        />
+
         <div className="search">
           <input
             value={query}
@@ -140,38 +329,57 @@ export default function App() {
           />
         </div>
       </header>
+      {notice ? (
+        <div className="notice banner">
+          {notice}
+          <button onClick={() => setNotice(null)}>✕</button>
+        </div>
+      ) : null}
 
       <main className="main">
-        <section className="left">
-          <div className="panelTitle">Modules</div>
-          <div className="list">
-            {filtered.map((m) => {
-              const already = selectedIds.includes(m.id);
-              return (
-                <div key={m.id} className="item">
-                  <div className="itemMain">
-                    <div className="itemName">{m.name}</div>
-                    <div className="itemDesc">{m.shortDesc}</div>
-                  </div>
-                  <button disabled={already} onClick={() => addModule(m.id)}>
-                    {already ? "Added" : "Add"}
-                  </button>
-                </div>
-              );
-            })}
-          </div>
-        </section>
+        <ModuleBrowser
+          modules={MODULES}
+          os={os}
+          query={query}
+          selectedIds={selectedIds}
+          onAdd={addModule}
+        />
 
         <section className="mid">
           <div className="panelTitle">Pipeline (Selected)</div>
+          {pipelineDiagnostics.length > 0 ? (
+            <ul className="diagnostics">
+              {pipelineDiagnostics.map((d, i) => (
+                <li key={`${d.kind}-${d.moduleId}-${i}`} className={d.severity}>
+                  {d.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          {orderNotice ? <div className="notice">{orderNotice}</div> : null}
           {selectedModules.length === 0 ? (
             <div className="empty">왼쪽에서 모듈을 추가하세요.</div>
           ) : (
             <div className="pipeline">
               {selectedModules.map((m, idx) => (
                 <div key={m.id} className="pipeItem">
-                  <div className="pipeTitle">{m.name}</div>
+                  <div className="pipeTitle">
+                    {m.name}
+                    <RiskBadges mod={m} os={os} vars={vars} />
+                  </div>
                   <div className="pipeBtns">
+                    {installCheckFor(m, os) ? (
+                      <select
+                        value={effectivePolicy(m, policies)}
+                        onChange={(e) =>
+                          setPolicy(m.id, e.target.value as OverwritePolicy)
+                        }
+                        title="이미 설치되어 있을 때의 동작"
+                      >
+                        <option value="skip">skip</option>
+                        <option value="overwrite">overwrite</option>
+                      </select>
+                    ) : null}
                     <button onClick={() => moveUp(idx)}>↑</button>
                     <button onClick={() => moveDown(idx)}>↓</button>
                     <button onClick={() => removeModule(m.id)}>Remove</button>
@@ -180,43 +388,152 @@ export default function App() {
               ))}
             </div>
           )}
+          {autoIncludedIds.length > 0 ? (
+            <div className="smallNote">
+              자동 포함(requires): {autoIncludedIds.map(moduleName).join(", ")}
+            </div>
+          ) : null}
+
+          {suggestions.length > 0 ? (
+            <>
+              <div className="panelTitle" style={{ marginTop: 12 }}>
+                Suggested
+              </div>
+              <div className="pipeline">
+                {suggestions.map((sg) => (
+                  <div key={sg.id} className="pipeItem suggested">
+                    <div>
+                      <div className="pipeTitle">{moduleName(sg.id)}</div>
+                      <div className="hint">
+                        {sg.reason} (추천:{" "}
+                        {sg.fromIds.map(moduleName).join(", ")})
+                      </div>
+                    </div>
+                    <button onClick={() => addModule(sg.id)}>Add</button>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : null}
 
           <div className="panelTitle" style={{ marginTop: 12 }}>
             Inputs
           </div>
+          <label className="persistToggle">
+            <input
+              type="checkbox"
+              checked={persistSensitive}
+              onChange={(e) => setPersistSensitive(e.target.checked)}
+            />
+            민감한 입력값(토큰 등)도 이 브라우저에 저장
+          </label>
           <div className="inputs">
-            {selectedModules.flatMap((m) => m.inputs ?? []).length === 0 ? (
+            {inputDefs.length === 0 ? (
               <div className="empty">입력값이 필요한 모듈이 없습니다.</div>
             ) : (
-              selectedModules
-                .flatMap((m) => m.inputs ?? [])
-                .map((inp) => (
-                  <div key={inp.key} className="inputRow">
-                    <label>{inp.label}</label>
-                    <input
-                      value={vars[inp.key] ?? ""}
-                      placeholder={inp.placeholder ?? ""}
-                      onChange={(e) =>
-                        setVars((p) => ({ ...p, [inp.key]: e.target.value }))
-                      }
-                    />
-                    {inp.hint ? <div className="hint">{inp.hint}</div> : null}
-                  </div>
-                ))
+              inputDefs.map(({ mod, inp, id }) => (
+                <InputField
+                  key={id}
+                  inp={inp}
+                  owner={mod.name}
+                  shared={sharedHint(inp)}
+                  value={vars[id] ?? ""}
+                  error={inputErrors.get(id)}
+                  onChange={(v) => setVars((p) => ({ ...p, [id]: v }))}
+                />
+              ))
             )}
           </div>
         </section>
 
         <section className="right">
           <div className="panelTitle row">
-            <span>Generated Script</span>
-            <button onClick={copyScript}>Copy</button>
-          </div>
-          <textarea className="script" value={result.script} readOnly />
-          <div className="smallNote">
-            * 스크립트는 선택/순서 변경될 때마다 전체 재생성됩니다. (의존성은
-            자동으로 앞에 배치됩니다)
+            <div className="tabs">
+              <button
+                className={rightTab === "script" ? "active" : ""}
+                onClick={() => setRightTab("script")}
+              >
+                Generated Script
+              </button>
+              <button
+                className={rightTab === "uninstall" ? "active" : ""}
+                onClick={() => setRightTab("uninstall")}
+              >
+                Uninstall Script
+              </button>
+              <button
+                className={rightTab === "bundle" ? "active" : ""}
+                onClick={() => setRightTab("bundle")}
+              >
+                Offline Bundle
+              </button>
+              <button
+                className={rightTab === "report" ? "active" : ""}
+                onClick={() => setRightTab("report")}
+              >
+                Run Report
+              </button>
+            </div>
+            {rightTab === "script" && (
+              <div className="pipeBtns">
+                <select
+                  value={onError}
+                  onChange={(e) => setOnError(e.target.value as OnErrorMode)}
+                  title="모듈이 실패했을 때 (스크립트 옵션으로도 변경 가능)"
+                >
+                  <option value="stop">On error: stop</option>
+                  <option value="continue">On error: continue</option>
+                </select>
+                <button onClick={copyShareLink}>Share link</button>
+                <button onClick={copyScript} disabled={blocked}>
+                  Copy
+                </button>
+              </div>
+            )}
           </div>
+          {rightTab === "report" ? (
+            <RunReportView />
+          ) : rightTab === "uninstall" ? (
+            <UninstallView os={os} selectedIds={selectedIds} vars={vars} />
+          ) : rightTab === "bundle" ? (
+            <BundleView
+              os={os}
+              selectedIds={selectedIds}
+              vars={vars}
+              policies={policies}
+              onError={onError}
+            />
+          ) : (
+            <>
+              <textarea
+                className="script"
+                value={
+                  blocked
+                    ? "# Pipeline 진단 오류 / 입력값 오류를 먼저 해결하세요. (스크립트 생성 중단)"
+                    : result.script
+                }
+                readOnly
+              />
+              <div className="smallNote">
+                * 스크립트는 선택/순서 변경될 때마다 전체 재생성됩니다.
+                (의존성은 자동으로 앞에 배치됩니다)
+                <br />* <code>bash install.sh --dry-run</code> 으로 무엇이
+                설치/건너뛰기 될지 먼저 확인할 수 있습니다.
+                <br />* 실행 로그/리포트(JSON) 위치: <code>
+                  ~/.ai-lab/logs
+                </code>{" "}
+                (Run Report 탭에서 열기)
+                <br />* 중간에 멈췄다면 다시 실행하면 완료된 모듈은 건너뜁니다.
+                (<code>--fresh</code>: 처음부터, <code>--from &lt;id&gt;</code>:
+                특정 모듈부터)
+                <br />* 스크립트는 실행 중인 OS/CPU를 감지해서 선택한 OS와
+                다르면 중단합니다. (<code>--force</code>: 그래도 실행)
+                <br />* 내려받는 설치 스크립트는 SHA-256을 확인한 뒤 실행합니다.
+                해시가 등록되지 않은 모듈(미검증 다운로드 배지)은{" "}
+                <code>--allow-unverified</code> 없이는 실행되지 않습니다.
+              </div>
+            </>
+          )}
         </section>
       </main>
     </div>
@@ -0,0 +1,109 @@
+// src/components/BundleView.tsx
+import { useMemo } from "react";
+
+import { planBundle } from "../core/bundlePlan";
+import { hasErrors } from "../core/diagnostics";
+import type { OnErrorMode } from "../core/scriptRuntime";
+import type { OverwritePolicy } from "../registry/modules";
+import type { OS } from "../registry/os";
+
+/**
+ * 오프라인 번들 탭
+ * - 번들에 들어갈 파일 / 패키지 목록 + 연결된 PC에서 돌릴 fetch 스크립트
+ * - 미러 모드 install.sh는 fetch 스크립트가 번들 안에 같이 넣어줌
+ */
+export default function BundleView({
+  os,
+  selectedIds,
+  vars,
+  policies,
+  onError,
+}: {
+  os: OS;
+  selectedIds: string[];
+  vars: Record<string, string>;
+  policies: Record<string, OverwritePolicy>;
+  onError: OnErrorMode;
+}) {
+  const result = useMemo(
+    () => planBundle({ os, selectedIds, vars, policies, onError }),
+    [os, selectedIds, vars, policies, onError]
+  );
+  const blocked = hasErrors(result.diagnostics);
+
+  const copyScript = async () => {
+    await navigator.clipboard.writeText(result.fetchScript);
+    alert("fetch 스크립트가 클립보드에 복사됨");
+  };
+
+  return (
+    <>
+      {result.diagnostics.length > 0 ? (
+        <ul className="diagnostics">
+          {result.diagnostics.map((d, i) => (
+            <li key={`${d.kind}-${d.moduleId}-${i}`} className={d.severity}>
+              {d.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {result.artifacts.length > 0 ? (
+        <div className="bundleArtifacts">
+          <table className="reportTable">
+            <thead>
+              <tr>
+                <th>Module</th>
+                <th>Kind</th>
+                <th>Source</th>
+                <th>SHA-256</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.artifacts.map((a, i) => (
+                <tr key={`${a.moduleId}-${i}`}>
+                  <td>{a.moduleId}</td>
+                  <td>{a.kind}</td>
+                  <td>
+                    {a.source}
+                    {a.path ? <div className="hint">→ {a.path}</div> : null}
+                  </td>
+                  <td
+                    className={
+                      a.kind === "file" && !a.sha256 ? "unverified" : ""
+                    }
+                  >
+                    {a.kind !== "file" ? "-" : (a.sha256 ?? "미검증")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+      <div className="pipeBtns">
+        <button onClick={copyScript} disabled={blocked}>
+          Copy
+        </button>
+      </div>
+      <textarea
+        className="script"
+        value={
+          blocked
+            ? "# Pipeline 진단 오류 / 입력값 오류를 먼저 해결하세요. (스크립트 생성 중단)"
+            : result.fetchScript
+        }
+        readOnly
+      />
+      <div className="smallNote">
+        * 인터넷이 되는 같은 OS의 PC에서 <code>bash fetch.sh</code> 를 실행하면{" "}
+        <code>ai-lab-bundle/</code> 에 파일과 패키지를 받고{" "}
+        <code>ai-lab-bundle.tar.gz</code> 로 묶습니다.
+        <br />* 오프라인 PC에서는 압축을 풀고{" "}
+        <code>bash ai-lab-bundle/install.sh</code> 를 실행합니다. (원격 URL 대신
+        번들 디렉터리 사용, <code>--mirror-dir</code>로 위치 지정)
+        <br />* 미러로 설치할 수 없는 모듈(macOS의 Homebrew 등)은 미리 설치돼
+        있어야 합니다.
+      </div>
+    </>
+  );
+}
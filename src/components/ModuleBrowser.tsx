@@ -0,0 +1,145 @@
+// src/components/ModuleBrowser.tsx
+import { useMemo, useState } from "react";
+
+import { unsupportedReason } from "../core/osSupport";
+import { isSupportedOn } from "../core/resolveDeps";
+import {
+  type Category,
+  CATEGORY_LABELS,
+  type ModuleDef,
+  type OS,
+} from "../registry/modules";
+import RiskBadges from "./RiskBadges";
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as Category[];
+
+/** simpleicons CDN 아이콘 (없는 slug면 조용히 숨김) */
+function ModuleIcon({ slug }: { slug?: string }) {
+  const [broken, setBroken] = useState(false);
+  if (!slug || broken) return <span className="itemIcon" />;
+  return (
+    <img
+      className="itemIcon"
+      src={`https://cdn.simpleicons.org/${slug}`}
+      alt=""
+      loading="lazy"
+      onError={() => setBroken(true)}
+    />
+  );
+}
+
+function matches(
+  m: ModuleDef,
+  q: string,
+  category: Category | null,
+  tag: string | null
+): boolean {
+  if (category && !m.category.includes(category)) return false;
+  if (tag && !m.tags.includes(tag)) return false;
+  if (!q) return true;
+  const hay = [m.name, m.shortDesc, ...(m.tags ?? [])].join(" ").toLowerCase();
+  return hay.includes(q);
+}
+
+/**
+ * 왼쪽 Modules 패널
+ * - 카테고리 chip + 태그 클릭으로 필터, 검색어는 topbar에서 받음
+ * - 현재 OS에서 script가 없는 모듈은 회색 + hover 시 notSupportedReason
+ * - 정적 분석에 걸린 모듈은 이름 옆에 위험 배지
+ */
+export default function ModuleBrowser({
+  modules,
+  os,
+  query,
+  selectedIds,
+  onAdd,
+}: {
+  modules: ModuleDef[];
+  os: OS;
+  query: string;
+  selectedIds: string[];
+  onAdd: (id: string) => void;
+}) {
+  const [category, setCategory] = useState<Category | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return modules.filter((m) => matches(m, q, category, tag));
+  }, [modules, query, category, tag]);
+
+  return (
+    <section className="left">
+      <div className="panelTitle">Modules</div>
+
+      <div className="chips">
+        <button
+          className={category === null ? "chip active" : "chip"}
+          onClick={() => setCategory(null)}
+        >
+          전체
+        </button>
+        {CATEGORIES.map((c) => (
+          <button
+            key={c}
+            className={category === c ? "chip active" : "chip"}
+            onClick={() => setCategory(category === c ? null : c)}
+          >
+            {CATEGORY_LABELS[c]}
+          </button>
+        ))}
+      </div>
+      {tag ? (
+        <div className="chips">
+          <button className="chip active" onClick={() => setTag(null)}>
+            #{tag} ✕
+          </button>
+        </div>
+      ) : null}
+
+      <div className="list">
+        {filtered.length === 0 ? (
+          <div className="empty">조건에 맞는 모듈이 없습니다.</div>
+        ) : null}
+        {filtered.map((m) => {
+          const already = selectedIds.includes(m.id);
+          const supported = isSupportedOn(m, os);
+          const reason = supported ? undefined : unsupportedReason(m, os);
+          return (
+            <div
+              key={m.id}
+              className={supported ? "item" : "item unsupported"}
+              title={reason}
+            >
+              <ModuleIcon slug={m.iconSlug} />
+              <div className="itemMain">
+                <div className="itemName">
+                  {m.name}
+                  {supported ? <RiskBadges mod={m} os={os} /> : null}
+                </div>
+                <div className="itemDesc">{m.shortDesc}</div>
+                <div className="itemTags">
+                  {m.tags.map((t) => (
+                    <button
+                      key={t}
+                      className="tag"
+                      onClick={() => setTag(tag === t ? null : t)}
+                    >
+                      #{t}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <button
+                disabled={already || !supported}
+                onClick={() => onAdd(m.id)}
+              >
+                {already ? "Added" : supported ? "Add" : "N/A"}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
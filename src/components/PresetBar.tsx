@@ -0,0 +1,117 @@
+// src/components/PresetBar.tsx
+import { useState } from "react";
+
+import type { PipelineState } from "../core/pipelineState";
+import {
+  type ApplyMode,
+  applyPreset,
+  parsePreset,
+  presetFromState,
+} from "../core/presets";
+import { type PresetDef, PRESETS } from "../registry/presets";
+
+const USER_PRESETS_KEY = "ailab_install_builder_presets_v1";
+
+/** 형식이 깨진 항목은 버림 (적용 시 예외가 나지 않도록) */
+function loadUserPresets(): PresetDef[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(USER_PRESETS_KEY) ?? "[]");
+    return Array.isArray(parsed)
+      ? parsed.map(parsePreset).filter((p): p is PresetDef => !!p)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveUserPresets(presets: PresetDef[]) {
+  localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets));
+}
+
+/**
+ * topbar 프리셋 선택
+ * - 기본 번들(PRESETS) + 사용자가 저장한 프리셋(localStorage)
+ * - Replace / Merge 로 현재 Pipeline에 적용
+ */
+export default function PresetBar({
+  state,
+  onApply,
+}: {
+  state: PipelineState;
+  onApply: (next: PipelineState) => void;
+}) {
+  const [userPresets, setUserPresets] = useState<PresetDef[]>(loadUserPresets);
+  const [presetId, setPresetId] = useState(PRESETS[0]?.id ?? "");
+
+  const all = [...PRESETS, ...userPresets];
+  const current = all.find((p) => p.id === presetId);
+  const isUserPreset = userPresets.some((p) => p.id === presetId);
+
+  const apply = (mode: ApplyMode) => {
+    if (!current) return;
+    onApply(applyPreset(state, current, mode));
+  };
+
+  const saveCurrent = () => {
+    const name = prompt("프리셋 이름", "My pipeline")?.trim();
+    if (!name) return;
+    const preset = presetFromState(state, name, `user.${Date.now()}`);
+    const next = [...userPresets, preset];
+    setUserPresets(next);
+    saveUserPresets(next);
+    setPresetId(preset.id);
+  };
+
+  const deleteCurrent = () => {
+    if (!isUserPreset || !current) return;
+    if (!confirm(`"${current.name}" 프리셋을 삭제할까요?`)) return;
+    const next = userPresets.filter((p) => p.id !== presetId);
+    setUserPresets(next);
+    saveUserPresets(next);
+    setPresetId(PRESETS[0]?.id ?? "");
+  };
+
+  return (
+    <div className="presetBar">
+      <label>Preset</label>
+      <select
+        value={presetId}
+        onChange={(e) => setPresetId(e.target.value)}
+        title={current?.description}
+      >
+        <optgroup label="기본">
+          {PRESETS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </optgroup>
+        {userPresets.length > 0 ? (
+          <optgroup label="내 프리셋">
+            {userPresets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </optgroup>
+        ) : null}
+      </select>
+      <button
+        onClick={() => apply("replace")}
+        title="현재 Pipeline을 프리셋으로 교체"
+      >
+        Replace
+      </button>
+      <button
+        onClick={() => apply("merge")}
+        title="현재 Pipeline에 없는 모듈만 추가"
+      >
+        Merge
+      </button>
+      <button onClick={saveCurrent} title="현재 Pipeline을 프리셋으로 저장">
+        Save…
+      </button>
+      {isUserPreset ? <button onClick={deleteCurrent}>Delete</button> : null}
+    </div>
+  );
+}
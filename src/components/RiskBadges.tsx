@@ -0,0 +1,48 @@
+// src/components/RiskBadges.tsx
+import { analyzeModule, riskRule, type RiskKind } from "../core/analyzeSafety";
+import { applyVars } from "../core/generateScript";
+import { moduleVars, resolveInputs } from "../core/validateInputs";
+import type { ModuleDef } from "../registry/modules";
+import type { OS } from "../registry/os";
+
+/**
+ * 모듈 위험 배지 (종류별 1개)
+ * - hover 시 어떤 줄에서 걸렸는지 보여줌
+ * - 본문은 입력값 치환 전 registry 스크립트 기준이라 생성 스크립트의 RISK SUMMARY와 조금 다를 수 있음
+ * - download URL은 입력값(비었으면 기본값)으로 치환해서 generator와 같은 해시를 찾음
+ */
+export default function RiskBadges({
+  mod,
+  os,
+  vars = {},
+}: {
+  mod: ModuleDef;
+  os: OS;
+  vars?: Record<string, string>;
+}) {
+  const values = moduleVars(mod, resolveInputs([mod], vars).vars);
+  const findings = analyzeModule(mod, os, (url) => applyVars(url, values));
+  if (findings.length === 0) return null;
+
+  const byKind = new Map<RiskKind, string[]>();
+  for (const f of findings) {
+    byKind.set(f.kind, [...(byKind.get(f.kind) ?? []), f.line]);
+  }
+
+  return (
+    <span className="riskBadges">
+      {[...byKind].map(([kind, lines]) => {
+        const rule = riskRule(kind);
+        return (
+          <span
+            key={kind}
+            className={`riskBadge ${rule.level}`}
+            title={`${rule.label}\n${lines.join("\n")}`}
+          >
+            {rule.badge}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,119 @@
+// src/components/RunReportView.tsx
+import { type DragEvent, useState } from "react";
+
+import {
+  countByStatus,
+  parseRunReport,
+  type RunReport,
+} from "../core/runReport";
+
+/**
+ * 실행 리포트 보기
+ * - 스크립트가 남긴 install-*.json 을 붙여넣거나 파일로 드롭
+ * - 모듈별 상태 / 소요 시간 / 실패 이유 / 감지된 버전
+ */
+export default function RunReportView() {
+  const [text, setText] = useState("");
+  const [report, setReport] = useState<RunReport | null>(null);
+  const [error, setError] = useState("");
+  const [dragging, setDragging] = useState(false);
+
+  const load = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setReport(null);
+      setError("");
+      return;
+    }
+    try {
+      setReport(parseRunReport(next));
+      setError("");
+    } catch (e) {
+      setReport(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const onDrop = async (e: DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) load(await file.text());
+  };
+
+  const counts = report ? countByStatus(report) : null;
+
+  return (
+    <div className="reportView">
+      <textarea
+        className={"reportInput" + (dragging ? " dragging" : "")}
+        placeholder="~/.ai-lab/logs/install-*.json 내용을 붙여넣거나 파일을 여기로 드롭하세요."
+        value={text}
+        onChange={(e) => load(e.target.value)}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={onDrop}
+      />
+      {error && <div className="inputError">{error}</div>}
+
+      {report && counts && (
+        <>
+          <div className="smallNote">
+            OS: <b>{report.os}</b>
+            {report.detectedOs && report.detectedOs !== report.os && (
+              <> (실행: {report.detectedOs})</>
+            )}
+            {report.distro && <> · {report.distro}</>}
+            {report.arch && <> · {report.arch}</>}
+            {report.host && <> · {report.host}</>}
+            {report.finishedAt && <> · {report.finishedAt}</>} · exit{" "}
+            {report.exitCode}
+            <br />
+            ok {counts.ok} · skipped {counts.skipped} · resumed {counts.resumed}{" "}
+            · failed {counts.failed} · blocked {counts.blocked} · not run{" "}
+            {counts.not_run}
+            {report.logFile && (
+              <>
+                <br />
+                log: <code>{report.logFile}</code>
+              </>
+            )}
+          </div>
+
+          <table className="reportTable">
+            <thead>
+              <tr>
+                <th>Status</th>
+                <th>Module</th>
+                <th>Time</th>
+                <th>Version / Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.modules.map((m) => (
+                <tr key={m.id} className={`status-${m.status}`}>
+                  <td>{m.status}</td>
+                  <td>
+                    {m.name}
+                    <div className="itemDesc">{m.id}</div>
+                  </td>
+                  <td>{m.durationSec}s</td>
+                  <td>
+                    {m.error ? (
+                      <span className="inputError">{m.error}</span>
+                    ) : (
+                      (report.versions[m.id] ?? "")
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+// src/components/UninstallView.tsx
+import { useMemo, useState } from "react";
+
+import { generateUninstallScript } from "../core/generateUninstallScript";
+import { hasErrors } from "../core/diagnostics";
+import { MODULE_BY_ID, type OS } from "../registry/modules";
+
+/**
+ * 제거 스크립트 탭
+ * - 현재 Pipeline 모듈 중 체크한 것만 제거 (기본: 전부)
+ * - 남기는 모듈이 필요로 하는 모듈은 generator가 알아서 유지
+ */
+export default function UninstallView({
+  os,
+  selectedIds,
+  vars,
+}: {
+  os: OS;
+  selectedIds: string[];
+  vars: Record<string, string>;
+}) {
+  // 체크 해제(= 남길) 모듈만 기억: 새로 추가된 모듈은 기본으로 제거 대상
+  const [keepIds, setKeepIds] = useState<string[]>([]);
+
+  const result = useMemo(
+    () =>
+      generateUninstallScript({
+        os,
+        selectedIds,
+        removeIds: selectedIds.filter((id) => !keepIds.includes(id)),
+        vars,
+      }),
+    [os, selectedIds, keepIds, vars]
+  );
+  const blocked = hasErrors(result.diagnostics);
+
+  const toggle = (id: string, remove: boolean) => {
+    setKeepIds((prev) =>
+      remove ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const copyScript = async () => {
+    await navigator.clipboard.writeText(result.script);
+    alert("제거 스크립트가 클립보드에 복사됨");
+  };
+
+  return (
+    <>
+      {selectedIds.length === 0 ? (
+        <div className="empty">Pipeline에 모듈을 추가하세요.</div>
+      ) : (
+        <div className="uninstallPick">
+          {selectedIds.map((id) => (
+            <label key={id}>
+              <input
+                type="checkbox"
+                checked={!keepIds.includes(id)}
+                onChange={(e) => toggle(id, e.target.checked)}
+              />
+              {MODULE_BY_ID.get(id)?.name ?? id}
+              {result.protectedIds.includes(id) ? (
+                <span className="hint"> (유지: 다른 모듈이 필요로 함)</span>
+              ) : null}
+            </label>
+          ))}
+        </div>
+      )}
+      {result.diagnostics.length > 0 ? (
+        <ul className="diagnostics">
+          {result.diagnostics.map((d, i) => (
+            <li key={`${d.kind}-${d.moduleId}-${i}`} className={d.severity}>
+              {d.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <div className="pipeBtns">
+        <button onClick={copyScript} disabled={blocked}>
+          Copy
+        </button>
+      </div>
+      <textarea
+        className="script"
+        value={
+          blocked
+            ? "# Pipeline 진단 오류를 먼저 해결하세요. (스크립트 생성 중단)"
+            : result.script
+        }
+        readOnly
+      />
+      <div className="smallNote">
+        * 설치의 역순으로 제거합니다. 설치돼 있지 않은 모듈은 건너뜁니다.
+        <br />* <code>bash uninstall.sh --dry-run</code> 으로 먼저 확인하고,{" "}
+        <code>--yes</code> 로 확인 질문 없이 실행할 수 있습니다.
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+// src/core/analyzeSafety.test.ts
+import { describe, expect, it } from "vitest";
+
+import { type ModuleDef, MODULES } from "../registry/modules";
+import { analyzeModule, analyzeText, type RiskKind } from "./analyzeSafety";
+import { applyVars, generateScript } from "./generateScript";
+
+function kinds(text: string, pkg: "apt" | "brew" = "apt"): RiskKind[] {
+  return analyzeText(text, pkg).map((f) => f.kind);
+}
+
+describe("analyzeText", () => {
+  it('curl | sh 와 bash -c "$(curl ...)"', () => {
+    expect(kinds("curl -fsSL https://x.dev/v1.2.0/i.sh | sh")).toEqual([
+      "curl_pipe_shell",
+    ]);
+    expect(
+      kinds(`/bin/bash -c "$(curl -fsSL https://x.dev/v1.2.0/i.sh)"`)
+    ).toEqual(["curl_pipe_shell"]);
+    expect(kinds("curl -fsSL -o a.tgz https://x.dev/v1.2.0/a.tgz")).toEqual([]);
+  });
+
+  it("rm -rf (플래그 순서 무관)", () => {
+    expect(kinds(`rm -rf "$HOME/.nvm"`)).toEqual(["rm_rf"]);
+    expect(kinds(`rm -fr x`)).toEqual(["rm_rf"]);
+    expect(kinds(`rm -f x`)).toEqual([]);
+  });
+
+  it("sudo / Linux 패키지 helper", () => {
+    expect(kinds("sudo apt-get update -y")).toEqual(["sudo"]);
+    expect(kinds("ailab_pkg_install jq")).toEqual(["sudo"]);
+    expect(kinds("ailab_pkg_install jq", "brew")).toEqual([]);
+  });
+
+  it("$HOME 밖 쓰기", () => {
+    expect(kinds(`echo x | sudo tee /etc/apt/sources.list.d/a.list`)).toEqual([
+      "sudo",
+      "write_outside_home",
+    ]);
+    expect(kinds(`echo x >> "$HOME/.zshrc"`)).toEqual([]);
+    expect(kinds(`cmd > /dev/null 2>&1`)).toEqual([]);
+  });
+
+  it("$HOME 밖 쓰기: install 대상 / -C 디렉터리 플래그", () => {
+    expect(kinds(`sudo tar -xzf "$f" -C /usr/local/bin starship`)).toEqual([
+      "sudo",
+      "write_outside_home",
+    ]);
+    expect(kinds("install -d /srv/lab")).toEqual(["write_outside_home"]);
+    expect(kinds("install -m 755 uv /var/lib/uv")).toEqual([
+      "write_outside_home",
+    ]);
+    expect(kinds(`tar -xzf a.tgz -C "$HOME/.nvm"`)).toEqual([]);
+    expect(kinds("install -d /tmp/lab")).toEqual([]);
+  });
+
+  it("버전이 없는 URL / 주석 줄은 무시", () => {
+    expect(kinds("curl -fsSLO https://x.dev/install.sh")).toEqual([
+      "unpinned_url",
+    ]);
+    expect(kinds("curl -fsSLO https://x.dev/{{ver}}/install.sh")).toEqual([]);
+    expect(kinds("# curl https://x.dev/i.sh | sh")).toEqual([]);
+  });
+});
+
+describe("analyzeModule", () => {
+  it("registry 모듈: URL을 치환해서 해시를 찾고, 없으면 미검증 다운로드", () => {
+    const nvm = MODULES.find((m) => m.id === "lang.nvm")!;
+    const kindsFor = (version: string) =>
+      analyzeModule(nvm, "ubuntu", (url) =>
+        applyVars(url, { nvm_version: version })
+      ).map((f) => f.kind);
+    expect(kindsFor("v0.40.3")).toEqual([]);
+    expect(kindsFor("v0.39.7")).toEqual(["unverified_download"]);
+  });
+});
+
+describe("analyzeModule: 본문 밖 조각", () => {
+  it("installCheck / rc 블록 / versionCmd도 분석", () => {
+    const mod: ModuleDef = {
+      id: "x.tool",
+      name: "Tool",
+      category: ["convenience"],
+      tags: [],
+      shortDesc: "",
+      script: { linux: "echo install" },
+      installCheck: { linux: "command -v x > /etc/x.path" },
+      shellRc: { lines: ["curl -fsSL https://x.dev/v1.0/env.sh | sh"] },
+      versionCmd: "sudo x --version",
+    };
+    expect(analyzeModule(mod, "ubuntu").map((f) => f.kind)).toEqual([
+      "write_outside_home",
+      "curl_pipe_shell",
+      "sudo",
+    ]);
+  });
+
+  it("generator: 미러 모드 본문의 tar -C 시스템 경로", () => {
+    const r = generateScript({
+      os: "ubuntu",
+      selectedIds: ["shell.starship"],
+      vars: {},
+      mirror: true,
+    });
+    expect(
+      r.risks
+        .find((m) => m.moduleId === "shell.starship")
+        ?.findings.map((f) => f.kind)
+    ).toContain("write_outside_home");
+  });
+});
+
+describe("RISK SUMMARY", () => {
+  it("shebang 바로 아래에 위험 모듈 목록", () => {
+    const r = generateScript({
+      os: "ubuntu",
+      selectedIds: ["cli.jq", "lang.uv"],
+      vars: {},
+    });
+    const head = r.script.split("\n").slice(0, 9);
+    expect(head[0]).toBe("#!/usr/bin/env bash");
+    expect(head[2]).toContain("RISK SUMMARY");
+    expect(head).toContain(
+      "#  [HIGH] SHA-256 확인 없이 내려받은 설치 스크립트 실행"
+    );
+    expect(r.risks.map((m) => m.moduleId)).toEqual([
+      "base.apt",
+      "cli.jq",
+      "lang.python3",
+      "lang.uv",
+    ]);
+  });
+
+  it("위험 패턴이 없으면 없음으로 표시", () => {
+    const r = generateScript({
+      os: "mac",
+      selectedIds: ["verify.summary"],
+      vars: {},
+    });
+    expect(r.risks).toEqual([]);
+    expect(r.script).toContain("#  발견된 위험 패턴 없음");
+  });
+});
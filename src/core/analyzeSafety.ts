@@ -0,0 +1,183 @@
+// src/core/analyzeSafety.ts
+import type { ModuleDef } from "../registry/modules";
+import { type OS, OS_INFO, type PackageManager } from "../registry/os";
+import { expandDownloads } from "./downloads";
+import { installCheckFor, scriptFor } from "./osSupport";
+
+/**
+ * 생성 스크립트 정적 분석 (줄 단위 패턴 매칭)
+ * - 실행하지 않고 위험해 보이는 패턴만 표시: 학생이 붙여넣기 전에 확인하도록
+ * - 오탐/미탐이 있을 수 있음 (주석 줄은 건너뜀)
+ */
+export type RiskKind =
+  | "curl_pipe_shell"
+  | "unverified_download"
+  | "rm_rf"
+  | "sudo"
+  | "write_outside_home"
+  | "unpinned_url";
+
+export type RiskLevel = "high" | "medium" | "low";
+
+export type RiskFinding = {
+  kind: RiskKind;
+  level: RiskLevel;
+  line: string; // 걸린 줄 (trim)
+};
+
+export type ModuleRisk = {
+  moduleId: string;
+  name: string;
+  findings: RiskFinding[];
+};
+
+type RiskRule = {
+  kind: RiskKind;
+  level: RiskLevel;
+  label: string; // 요약 / 툴팁용
+  badge: string; // UI 배지 (짧게)
+  test: (line: string, pkg: PackageManager) => boolean;
+};
+
+// 버전 / 커밋이 박힌 URL: /v0.40.3/, /1.2/, @1.2.3, 40자리 sha
+const PINNED_URL_RE = /\/v?\d+(\.\d+)+\/|@v?\d+(\.\d+)+|\b[0-9a-f]{40}\b/;
+const URL_RE = /https?:\/\/[^\s"'`)]+/g;
+
+export const RISK_RULES: RiskRule[] = [
+  {
+    kind: "curl_pipe_shell",
+    level: "high",
+    label: "원격 스크립트를 내려받아 바로 실행 (curl | sh)",
+    badge: "curl|sh",
+    test: (line) =>
+      /\b(curl|wget)\b[^|]*\|\s*(sudo\s+)?(\w+=\S+\s+)*(ba|z)?sh\b/.test(
+        line
+      ) || /\b(ba|z)?sh\s+-c\s+"\$\((curl|wget)\b/.test(line),
+  },
+  {
+    kind: "unverified_download",
+    level: "high",
+    label: "SHA-256 확인 없이 내려받은 설치 스크립트 실행",
+    badge: "미검증 다운로드",
+    // downloads.ts가 만든 호출: 해시 자리가 비었거나 "-"(일부러 미검증)
+    test: (line) => /\bailab_fetch_run\s+"[^"]*"\s+"-?"/.test(line),
+  },
+  {
+    kind: "rm_rf",
+    level: "high",
+    label: "강제 재귀 삭제 (rm -rf)",
+    badge: "rm -rf",
+    test: (line) => /\brm\s+-[a-zA-Z]*(r[a-zA-Z]*f|f[a-zA-Z]*r)/i.test(line),
+  },
+  {
+    kind: "sudo",
+    level: "medium",
+    label: "관리자 권한 실행 (sudo, 비밀번호를 물을 수 있음)",
+    badge: "sudo",
+    // Linux 패키지 매니저 helper는 sudo로 실행됨
+    test: (line, pkg) =>
+      /(^|[;&|(\s])sudo\s/.test(line) ||
+      (pkg !== "brew" && /\bailab_pkg_(install|remove)\b/.test(line)),
+  },
+  {
+    kind: "write_outside_home",
+    level: "medium",
+    label: "$HOME 밖에 파일 쓰기 (시스템 경로)",
+    badge: "시스템 경로",
+    test: (line) =>
+      /(>>?|\btee\s+(-a\s+)?)\s*"?\/(?!dev\/)/.test(line) ||
+      /\b(cp|mv|ln|mkdir)\b[^;&|]*\s"?\/(usr|etc|opt|bin|sbin|Library|Applications)\b/.test(
+        line
+      ) ||
+      // install 대상 / tar -C 같은 디렉터리 플래그: /tmp, /dev 말고 절대 경로면 모두
+      /(\binstall\b[^;&|]*\s|\s-C\s+)"?\/(?!dev\/|tmp\/)/.test(line),
+  },
+  {
+    kind: "unpinned_url",
+    level: "low",
+    label: "버전이 고정되지 않은 URL (내용이 바뀔 수 있음)",
+    badge: "버전 미고정",
+    test: (line) =>
+      [...line.matchAll(URL_RE)].some(
+        // {{var}}로 버전을 받는 URL은 입력값에 따라 다르므로 여기선 통과
+        ([url]) => !PINNED_URL_RE.test(url) && !url.includes("{{")
+      ),
+  },
+];
+
+const RULE_BY_KIND = new Map(RISK_RULES.map((r) => [r.kind, r]));
+
+export function riskRule(kind: RiskKind): RiskRule {
+  return RULE_BY_KIND.get(kind)!;
+}
+
+const LEVEL_ORDER: Record<RiskLevel, number> = { high: 0, medium: 1, low: 2 };
+
+/** 가장 높은 위험도 (없으면 undefined) */
+export function maxRiskLevel(findings: RiskFinding[]): RiskLevel | undefined {
+  return [...findings].sort(
+    (a, b) => LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level]
+  )[0]?.level;
+}
+
+/** bash 조각 하나 분석: 한 줄에 여러 패턴이면 모두 */
+export function analyzeText(text: string, pkg: PackageManager): RiskFinding[] {
+  const out: RiskFinding[] = [];
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    for (const rule of RISK_RULES) {
+      if (rule.test(line, pkg)) {
+        out.push({ kind: rule.kind, level: rule.level, line });
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * registry 모듈이 해당 OS 스크립트에 넣는 것 전부 (UI 배지용, 본문은 입력값 치환 전)
+ * - 설치 본문 + installCheck + rc 블록 + versionCmd (generator와 같은 범위)
+ * - resolveUrl: download URL의 {{var}} 치환 (해시는 치환된 URL로 찾으므로 generator와 같게)
+ */
+export function analyzeModule(
+  mod: ModuleDef,
+  os: OS,
+  resolveUrl?: (url: string) => string
+): RiskFinding[] {
+  const s = scriptFor(mod, os);
+  if (!s) return [];
+  const parts = [
+    installCheckFor(mod, os),
+    expandDownloads(mod, s, resolveUrl).text,
+    ...(mod.shellRc?.lines ?? []),
+    mod.versionCmd,
+  ];
+  return analyzeText(parts.filter(Boolean).join("\n"), OS_INFO[os].pkg);
+}
+
+/**
+ * 스크립트 맨 위 주석 블록: 위험 종류별로 해당 모듈 나열
+ * - generator가 실제로 내보낸 본문(입력값 치환 후) 기준
+ */
+export function renderRiskSummary(risks: ModuleRisk[]): string {
+  const lines = [
+    "# ============================================================",
+    "# RISK SUMMARY (정적 분석 결과, 실행 전에 확인하세요)",
+  ];
+  let any = false;
+  for (const rule of RISK_RULES) {
+    const hits = risks.filter((r) =>
+      r.findings.some((f) => f.kind === rule.kind)
+    );
+    if (hits.length === 0) continue;
+    any = true;
+    lines.push(
+      `#  [${rule.level.toUpperCase()}] ${rule.label}`,
+      `#    ${hits.map((r) => `${r.name} (${r.moduleId})`).join(", ")}`
+    );
+  }
+  if (!any) lines.push("#  발견된 위험 패턴 없음");
+  lines.push("# ============================================================");
+  return lines.join("\n");
+}
@@ -0,0 +1,81 @@
+// src/core/bundlePlan.test.ts
+import { describe, expect, it } from "vitest";
+
+import { OS_LIST } from "../registry/os";
+import { ALL_IDS, bashSyntaxErrors, VARS } from "../test/helpers";
+import { planBundle } from "./bundlePlan";
+
+describe.each(OS_LIST)("전체 모듈 번들 (%s)", (os) => {
+  const r = planBundle({ os, selectedIds: ALL_IDS, vars: VARS });
+
+  it("fetch / 미러 모드 설치 스크립트 bash -n 통과", () => {
+    expect(r.fetchScript).not.toBe("");
+    expect(bashSyntaxErrors(r.fetchScript)).toBe("");
+    expect(bashSyntaxErrors(r.installScript)).toBe("");
+  });
+
+  it("미러 모드 설치 스크립트는 원격 URL을 받지 않음", () => {
+    expect(r.installScript).not.toContain('ailab_fetch_run "http');
+    expect(r.installScript).toContain("ailab_mirror_prepare");
+  });
+});
+
+describe("planBundle", () => {
+  it("Ubuntu: 파일은 미러 경로로, 패키지는 ailab_mirror_pkgs로", () => {
+    const r = planBundle({
+      os: "ubuntu",
+      selectedIds: ["lang.nvm", "cli.jq", "shell.starship"],
+      vars: {},
+    });
+    expect(r.artifacts).toContainEqual({
+      moduleId: "lang.nvm",
+      kind: "file",
+      source: "https://github.com/nvm-sh/nvm/archive/v0.40.3.tar.gz",
+      path: "lang.nvm/nvm.tar.gz",
+      sha256: undefined,
+    });
+    expect(
+      r.artifacts
+        .filter((a) => a.moduleId === "shell.starship")
+        .map((a) => a.path)
+    ).toEqual([
+      "shell.starship/arm64/starship.tar.gz",
+      "shell.starship/amd64/starship.tar.gz",
+    ]);
+    expect(r.fetchScript).toContain("ailab_mirror_pkgs jq");
+    expect(r.installScript).toContain(
+      'tar -xzf "$AILAB_MIRROR_DIR/lang.nvm/nvm.tar.gz"'
+    );
+    expect(r.installScript).toContain(
+      '"$AILAB_MIRROR_DIR/shell.starship/$AILAB_ARCH/starship.tar.gz"'
+    );
+    expect(r.diagnostics.map((d) => d.kind)).toContain("unverified_download");
+  });
+
+  it("macOS: 미러로 못 까는 Homebrew는 건너뛰고 경고", () => {
+    const r = planBundle({
+      os: "mac",
+      selectedIds: ["cli.jq"],
+      vars: {},
+    });
+    expect(
+      r.diagnostics
+        .filter((d) => d.kind === "offline_unsupported")
+        .map((d) => d.moduleId)
+    ).toEqual(["base.clt", "base.homebrew"]);
+    expect(r.installScript).toContain(
+      "[SKIP] Homebrew (not available offline: install it beforehand)"
+    );
+    expect(r.fetchScript).toContain("ailab_mirror_pkgs jq");
+  });
+
+  it("입력 오류면 스크립트 없이 진단만", () => {
+    const r = planBundle({
+      os: "ubuntu",
+      selectedIds: ["dev.github_ssh"],
+      vars: {},
+    });
+    expect(r.fetchScript).toBe("");
+    expect(r.diagnostics.some((d) => d.kind === "invalid_input")).toBe(true);
+  });
+});
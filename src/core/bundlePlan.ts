@@ -0,0 +1,183 @@
+// src/core/bundlePlan.ts
+import { MODULE_BY_ID, type ModuleDef } from "../registry/modules";
+import { OS_INFO, pickForOS } from "../registry/os";
+import { type Diagnostic, hasErrors } from "./diagnostics";
+import { expandMirror, resolveArtifacts } from "./downloads";
+import {
+  applyVars,
+  generateScript,
+  type GenerateInput,
+} from "./generateScript";
+import {
+  offlineScriptFor,
+  offlineUnsupportedReason,
+  packagesFor,
+} from "./osSupport";
+import { isSupportedOn } from "./resolveDeps";
+import {
+  renderDetect,
+  renderFetchArgParser,
+  renderFetchRuntime,
+} from "./scriptRuntime";
+import { moduleVars, resolveInputs } from "./validateInputs";
+
+export type BundleInput = Omit<GenerateInput, "mirror">;
+
+/** 번들에 들어가는 것 하나 (bundle plan 표 / manifest.txt 한 줄) */
+export type BundleArtifact = {
+  moduleId: string;
+  kind: "file" | "packages" | "fetch"; // URL 파일 / 패키지 + 의존성 / 모듈 fetch 스크립트
+  source: string; // URL / 패키지 이름 / fetch 설명
+  path?: string; // 미러 디렉터리 기준 (file만)
+  sha256?: string; // file: 없으면 미검증
+  unverified?: string; // file: 일부러 미검증인 이유 (latest 릴리스 등)
+};
+
+export type BundleResult = {
+  fetchScript: string; // 연결된 PC에서 실행 (diagnostics에 error가 있으면 "")
+  installScript: string; // 번들 안 install.sh (미러 모드)
+  artifacts: BundleArtifact[];
+  diagnostics: Diagnostic[];
+};
+
+/** 미러 모드 본문에서 ailab_pkg_install로 설치하는 패키지 */
+const PKG_INSTALL_RE = /^\s*ailab_pkg_install\s+(.+)$/gm;
+
+/**
+ * 모듈 하나의 fetch 단계
+ * - offline.fetch > packages > 미러 모드 본문의 ailab_pkg_install 줄
+ * - artifacts는 본문이 {{artifact:name}}으로 참조하는 것만
+ */
+function planModule(
+  mod: ModuleDef,
+  input: BundleInput,
+  inputs: Record<string, string>
+): { artifacts: BundleArtifact[]; lines: string[] } {
+  const vars = moduleVars(mod, inputs);
+  const raw = offlineScriptFor(mod, input.os) ?? "";
+  const artifacts: BundleArtifact[] = [];
+  const lines: string[] = [];
+
+  for (const a of resolveArtifacts(mod, raw, (url) => applyVars(url, vars))) {
+    artifacts.push({
+      moduleId: mod.id,
+      kind: "file",
+      source: a.url,
+      path: a.path,
+      sha256: a.sha256,
+      ...(a.unverified ? { unverified: a.unverified } : {}),
+    });
+    lines.push(
+      `ailab_fetch_file "${a.url}" "$AILAB_MIRROR_DIR/${a.path}" "${a.sha256 ?? ""}"`
+    );
+  }
+
+  const fetch = mod.offline?.fetch;
+  const custom = fetch && pickForOS(fetch.script, input.os);
+  if (fetch && custom) {
+    artifacts.push({ moduleId: mod.id, kind: "fetch", source: fetch.desc });
+    lines.push(applyVars(expandMirror(mod, custom), vars).trim());
+    return { artifacts, lines };
+  }
+
+  const pkgs =
+    packagesFor(mod, input.os) ??
+    [...applyVars(raw, vars).matchAll(PKG_INSTALL_RE)].map((m) => m[1]);
+  if (pkgs.length > 0) {
+    artifacts.push({
+      moduleId: mod.id,
+      kind: "packages",
+      source: pkgs.join(" "),
+    });
+    lines.push(`ailab_mirror_pkgs ${pkgs.join(" ")}`);
+  }
+  return { artifacts, lines };
+}
+
+function manifestLine(a: BundleArtifact): string {
+  const where = a.path ? ` -> ${a.path}` : "";
+  const hash = a.kind === "file" ? ` (${a.sha256 ?? "unverified"})` : "";
+  return `${a.moduleId}\t${a.kind}\t${a.source}${where}${hash}`;
+}
+
+/**
+ * 오프라인(air-gapped) 번들
+ * - installScript: 미러 모드 설치 스크립트 (원격 URL 대신 {{mirror_dir}})
+ * - fetchScript: 같은 OS의 연결된 PC에서 실행 → 파일 / 패키지를 받아
+ *   install.sh와 함께 <bundle-dir>.tar.gz로 묶음
+ */
+export function planBundle(input: BundleInput): BundleResult {
+  const byId = MODULE_BY_ID;
+  const install = generateScript({ ...input, mirror: true });
+  const diagnostics = [...install.diagnostics];
+  if (hasErrors(diagnostics)) {
+    return { fetchScript: "", installScript: "", artifacts: [], diagnostics };
+  }
+
+  // 설치 스크립트와 같은 규칙으로 입력값 정리 (fetch URL의 버전 등)
+  const runnable = install.includedIds
+    .map((id) => byId.get(id))
+    .filter((m): m is ModuleDef => !!m && isSupportedOn(m, input.os));
+  const inputs = resolveInputs(runnable, input.vars).vars;
+
+  const artifacts: BundleArtifact[] = [];
+  const blocks: string[] = [];
+  for (const mod of runnable) {
+    if (offlineUnsupportedReason(mod, input.os)) continue;
+    const planned = planModule(mod, input, inputs);
+    if (planned.lines.length === 0) continue;
+    artifacts.push(...planned.artifacts);
+    blocks.push(
+      `# ${mod.name} (${mod.id})\necho "[BUNDLE] ${mod.id}"\n${planned.lines.join("\n")}\n`
+    );
+    for (const a of planned.artifacts) {
+      if (a.kind !== "file" || a.sha256) continue;
+      diagnostics.push({
+        kind: "unverified_download",
+        severity: "warning",
+        moduleId: mod.id,
+        message: a.unverified
+          ? `${mod.name}: ${a.source}는 번들에 확인 없이 들어감 (${a.unverified})`
+          : `${mod.name}: ${a.source}의 SHA-256이 등록되지 않아 번들에 확인 없이 들어감`,
+      });
+    }
+  }
+
+  const fetchScript = `#!/usr/bin/env bash
+# AI Lab offline bundle: 인터넷이 되는 같은 OS의 PC에서 실행
+set -euo pipefail
+
+${renderFetchArgParser()}
+
+echo "===================================="
+echo "AI Lab Install Script Builder - BUNDLE"
+echo "OS: ${OS_INFO[input.os].label} (${input.os})"
+echo "===================================="
+${renderDetect(input.os)}
+
+${renderFetchRuntime(OS_INFO[input.os].pkg)}
+
+cat > "$AILAB_MIRROR_DIR/manifest.txt" <<'AILAB_MANIFEST'
+${artifacts.map(manifestLine).join("\n")}
+AILAB_MANIFEST
+
+${blocks.join("\n")}
+ailab_mirror_index
+
+cat > "$AILAB_MIRROR_DIR/install.sh" <<'AILAB_INSTALL_SH'
+${install.script.trimEnd()}
+AILAB_INSTALL_SH
+chmod +x "$AILAB_MIRROR_DIR/install.sh"
+
+tar -czf "$AILAB_MIRROR_DIR.tar.gz" -C "$(dirname "$AILAB_MIRROR_DIR")" "$(basename "$AILAB_MIRROR_DIR")"
+echo "[DONE] $AILAB_MIRROR_DIR.tar.gz"
+echo "오프라인 PC에서: tar -xzf $(basename "$AILAB_MIRROR_DIR").tar.gz && bash $(basename "$AILAB_MIRROR_DIR")/install.sh"
+`;
+
+  return {
+    fetchScript,
+    installScript: install.script,
+    artifacts,
+    diagnostics,
+  };
+}
@@ -0,0 +1,23 @@
+// src/core/diagnostics.ts
+export type DiagnosticKind =
+  | "cycle"
+  | "unknown_id"
+  | "unsupported_os"
+  | "invalid_input"
+  | "kept_dependency" // 제거 스크립트: 남는 모듈이 필요로 해서 유지
+  | "no_uninstall" // 제거 스크립트: uninstall 조각 없음 (수동 제거)
+  | "unverified_download" // SHA-256 없는 설치 스크립트 (--allow-unverified 필요)
+  | "offline_unsupported"; // 미러(오프라인) 모드로 설치할 수 없는 모듈
+
+export type Diagnostic = {
+  kind: DiagnosticKind;
+  severity: "error" | "warning"; // error => 스크립트 생성 중단
+  moduleId: string;
+  message: string;
+  path?: string[]; // cycle 경로 / requires 체인
+  inputKey?: string; // invalid_input일 때 어느 입력칸인지
+};
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === "error");
+}
@@ -0,0 +1,79 @@
+// src/core/downloads.test.ts
+import { describe, expect, it } from "vitest";
+
+import type { ModuleDef } from "../registry/modules";
+import { expandDownloads, unverifiedDiagnostics } from "./downloads";
+
+const HASH_A = "a".repeat(64);
+
+const MOD: ModuleDef = {
+  id: "x.tool",
+  name: "Tool",
+  category: ["convenience"],
+  tags: [],
+  shortDesc: "",
+  script: { linux: "{{download:install}} sh -y\n{{download:extra}} bash" },
+  downloads: {
+    install: {
+      url: "https://x.dev/{{ver}}/install.sh",
+      sha256: { "https://x.dev/v1/install.sh": HASH_A },
+    },
+    extra: { url: "https://x.dev/extra.sh" },
+    head: { url: "https://x.dev/HEAD/install.sh", unverified: "HEAD만 제공" },
+  },
+};
+
+describe("expandDownloads", () => {
+  it("치환된 URL로 해시를 찾아 ailab_fetch_run 호출로 바꿈", () => {
+    const { text, downloads } = expandDownloads(
+      MOD,
+      MOD.script!.linux!,
+      (url) => url.replace("{{ver}}", "v1")
+    );
+    expect(text).toBe(
+      `ailab_fetch_run "https://x.dev/v1/install.sh" "${HASH_A}" sh -y\n` +
+        `ailab_fetch_run "https://x.dev/extra.sh" "" bash`
+    );
+    expect(unverifiedDiagnostics(MOD, downloads)).toEqual([
+      expect.objectContaining({
+        kind: "unverified_download",
+        severity: "warning",
+        moduleId: "x.tool",
+      }),
+    ]);
+  });
+
+  it("등록되지 않은 버전의 URL은 미검증", () => {
+    const { downloads } = expandDownloads(
+      MOD,
+      "{{download:install}} sh",
+      (url) => url.replace("{{ver}}", "v2")
+    );
+    expect(downloads).toEqual([
+      {
+        moduleId: "x.tool",
+        name: "install",
+        url: "https://x.dev/v2/install.sh",
+        sha256: undefined,
+      },
+    ]);
+  });
+
+  it("일부러 미검증인 URL은 해시 자리에 - 를 넣고 이유와 함께 경고", () => {
+    const { text, downloads } = expandDownloads(MOD, "{{download:head}} sh");
+    expect(text).toBe('ailab_fetch_run "https://x.dev/HEAD/install.sh" "-" sh');
+    expect(unverifiedDiagnostics(MOD, downloads)).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        message:
+          "Tool: https://x.dev/HEAD/install.sh는 고정 해시가 없어 실행 시 --allow-unverified가 필요함 (HEAD만 제공)",
+      }),
+    ]);
+  });
+
+  it("없는 name은 그대로 둠", () => {
+    expect(expandDownloads(MOD, "{{download:nope}} sh").text).toBe(
+      "{{download:nope}} sh"
+    );
+  });
+});
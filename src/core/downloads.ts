@@ -0,0 +1,158 @@
+// src/core/downloads.ts
+import type { ArtifactDef, DownloadDef, ModuleDef } from "../registry/modules";
+import { CPU_ARCHES, type CpuArch } from "../registry/os";
+import type { Diagnostic } from "./diagnostics";
+
+/** script / uninstall 안의 {{download:name}} 참조 */
+const DOWNLOAD_RE = /\{\{download:([a-zA-Z0-9_]+)\}\}/g;
+
+/** 생성 스크립트에 실제로 들어간 다운로드 (URL은 입력값 치환 후) */
+export type ResolvedDownload = {
+  moduleId: string;
+  name: string; // ModuleDef.downloads key
+  url: string;
+  sha256?: string; // 없으면 미검증
+  unverified?: string; // 일부러 미검증인 이유 (sha256이 없을 때만)
+};
+
+export function downloadRefs(text: string): string[] {
+  return [...text.matchAll(DOWNLOAD_RE)].map((m) => m[1]);
+}
+
+/** 고정 URL이면 문자열 그대로, {{var}} URL이면 치환된 URL로 찾음 */
+function sha256For(
+  def: DownloadDef | ArtifactDef,
+  url: string
+): string | undefined {
+  if (typeof def.sha256 === "string") return def.sha256;
+  return def.sha256?.[url];
+}
+
+/** 해시 대신 등록된 "일부러 미검증" 이유 (sha256과 같은 규칙) */
+function unverifiedFor(
+  def: DownloadDef | ArtifactDef,
+  url: string
+): string | undefined {
+  if (typeof def.unverified === "string") return def.unverified;
+  return def.unverified?.[url];
+}
+
+/** 실행 스크립트의 해시 자리: 해시 / "-" (일부러 미검증) / "" (등록 안 됨) */
+function hashArg(d: { sha256?: string; unverified?: string }): string {
+  return d.sha256 ?? (d.unverified ? "-" : "");
+}
+
+/**
+ * 해시 없는 다운로드마다 warning
+ * - 등록 안 됨 / 일부러 미검증 모두 스크립트는 만들되 실행 시 막힘 (--allow-unverified 필요)
+ */
+export function unverifiedDiagnostics(
+  mod: ModuleDef,
+  downloads: ResolvedDownload[]
+): Diagnostic[] {
+  return downloads
+    .filter((d) => !d.sha256)
+    .map((d) => ({
+      kind: "unverified_download",
+      severity: "warning",
+      moduleId: mod.id,
+      message: d.unverified
+        ? `${mod.name}: ${d.url}는 고정 해시가 없어 실행 시 --allow-unverified가 필요함 (${d.unverified})`
+        : `${mod.name}: ${d.url}의 SHA-256이 등록되지 않아 실행 시 --allow-unverified가 필요함`,
+    }));
+}
+
+/**
+ * {{download:name}} → ailab_fetch_run "<url>" "<sha256 | - | 빈 값>"
+ * - resolveUrl: URL의 {{var}} 치환 (UI 배지처럼 입력값 치환 전이면 생략)
+ * - 없는 name은 그대로 둠 (lintRegistry가 잡음)
+ */
+export function expandDownloads(
+  mod: ModuleDef,
+  text: string,
+  resolveUrl: (url: string) => string = (url) => url
+): { text: string; downloads: ResolvedDownload[] } {
+  const downloads: ResolvedDownload[] = [];
+  const out = text.replace(DOWNLOAD_RE, (whole, name: string) => {
+    const def = mod.downloads?.[name];
+    if (!def) return whole;
+    const url = resolveUrl(def.url);
+    const sha256 = sha256For(def, url);
+    const unverified = sha256 ? undefined : unverifiedFor(def, url);
+    const d: ResolvedDownload = { moduleId: mod.id, name, url, sha256 };
+    if (unverified) d.unverified = unverified;
+    downloads.push(d);
+    return `ailab_fetch_run "${url}" "${hashArg(d)}"`;
+  });
+  return { text: out, downloads };
+}
+
+/** 미러 모드 스크립트의 {{artifact:name}} / {{mirror_dir}} */
+const ARTIFACT_RE = /\{\{artifact:([a-zA-Z0-9_.-]+)\}\}/g;
+const MIRROR_DIR_RE = /\{\{mirror_dir\}\}/g;
+
+/** 오프라인 번들에 들어갈 파일 하나 (CPU별 artifact는 CPU마다 따로) */
+export type ResolvedArtifact = {
+  moduleId: string;
+  name: string;
+  arch?: CpuArch;
+  url: string;
+  path: string; // 미러 디렉터리 기준 상대 경로
+  sha256?: string;
+  unverified?: string; // ResolvedDownload와 같은 규칙
+};
+
+export function artifactRefs(text: string): string[] {
+  return [...text.matchAll(ARTIFACT_RE)].map((m) => m[1]);
+}
+
+/**
+ * {{mirror_dir}} → $AILAB_MIRROR_DIR, {{artifact:name}} → 미러 안 경로
+ * - applyVars보다 먼저 (mirror_dir는 입력값이 아님)
+ * - CPU별 artifact는 실행 시점의 $AILAB_ARCH로 고름
+ */
+export function expandMirror(mod: ModuleDef, text: string): string {
+  return text
+    .replace(MIRROR_DIR_RE, "$AILAB_MIRROR_DIR")
+    .replace(ARTIFACT_RE, (whole, name: string) => {
+      const def = mod.offline?.artifacts?.find((a) => a.name === name);
+      if (!def) return whole;
+      const arch = typeof def.url === "string" ? "" : "/$AILAB_ARCH";
+      return `$AILAB_MIRROR_DIR/${mod.id}${arch}/${name}`;
+    });
+}
+
+/** 미러 모드 본문이 참조하는 artifact를 받을 URL / 경로로 (참조 안 된 것은 제외) */
+export function resolveArtifacts(
+  mod: ModuleDef,
+  text: string,
+  resolveUrl: (url: string) => string = (url) => url
+): ResolvedArtifact[] {
+  const out: ResolvedArtifact[] = [];
+  for (const name of new Set(artifactRefs(text))) {
+    const def = mod.offline?.artifacts?.find((a) => a.name === name);
+    if (!def) continue;
+    const byArch = def.url;
+    const urls: [CpuArch | undefined, string | undefined][] =
+      typeof byArch === "string"
+        ? [[undefined, byArch]]
+        : CPU_ARCHES.map((arch) => [arch, byArch[arch]]);
+    for (const [arch, raw] of urls) {
+      if (!raw) continue;
+      const url = resolveUrl(raw);
+      const sha256 = sha256For(def, url);
+      const a: ResolvedArtifact = {
+        moduleId: mod.id,
+        name,
+        arch,
+        url,
+        path: arch ? `${mod.id}/${arch}/${name}` : `${mod.id}/${name}`,
+        sha256,
+      };
+      const unverified = sha256 ? undefined : unverifiedFor(def, url);
+      if (unverified) a.unverified = unverified;
+      out.push(a);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,350 @@
+// src/core/generateScript.test.ts
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { OS_LIST } from "../registry/os";
+import { ALL_IDS, bashSyntaxErrors, VARS } from "../test/helpers";
+import { hasErrors } from "./diagnostics";
+import { applyVars, generateScript } from "./generateScript";
+import { generateUninstallScript } from "./generateUninstallScript";
+import { namespaceVars } from "./pipelineState";
+
+describe.each(OS_LIST)("전체 모듈 (%s)", (os) => {
+  const install = generateScript({ os, selectedIds: ALL_IDS, vars: VARS });
+  const uninstall = generateUninstallScript({
+    os,
+    selectedIds: ALL_IDS,
+    vars: VARS,
+  });
+
+  it("error 진단 없이 생성됨", () => {
+    expect(install.diagnostics.filter((d) => d.severity === "error")).toEqual(
+      []
+    );
+    expect(install.script).not.toBe("");
+    expect(uninstall.script).not.toBe("");
+  });
+
+  it("bash -n 통과", () => {
+    expect(bashSyntaxErrors(install.script)).toBe("");
+    expect(bashSyntaxErrors(uninstall.script)).toBe("");
+  });
+
+  it("설치 스크립트 snapshot", () => {
+    expect(install.script).toMatchSnapshot();
+  });
+});
+
+describe("generateScript", () => {
+  it("requires는 자동으로 앞에 포함", () => {
+    const r = generateScript({
+      os: "mac",
+      selectedIds: ["lang.node_lts"],
+      vars: {},
+    });
+    expect(r.includedIds).toEqual([
+      "base.clt",
+      "base.homebrew",
+      "dev.git",
+      "lang.nvm",
+      "lang.node_lts",
+    ]);
+  });
+
+  it("필수 입력이 비면 스크립트를 만들지 않음", () => {
+    const r = generateScript({
+      os: "ubuntu",
+      selectedIds: ["dev.git_config"],
+      vars: { "dev.git_config.git_name": "A" },
+    });
+    expect(r.script).toBe("");
+    expect(r.diagnostics).toContainEqual(
+      expect.objectContaining({
+        kind: "invalid_input",
+        inputKey: "dev.git_config.git_email",
+      })
+    );
+  });
+
+  it("입력값은 double quote 안전하게 치환", () => {
+    const r = generateScript({
+      os: "ubuntu",
+      selectedIds: ["dev.git_config"],
+      vars: {
+        "dev.git_config.git_name": 'A "$(rm -rf ~)" `x`',
+        "dev.git_config.git_email": "a@b.co",
+      },
+    });
+    expect(r.script).toContain('A \\"\\$(rm -rf ~)\\" \\`x\\`');
+    expect(bashSyntaxErrors(r.script)).toBe("");
+  });
+
+  it("연달아 있는 packages 모듈만 한 번에 설치 (사용자 순서 유지)", () => {
+    const stepsOf = (selectedIds: string[]) =>
+      generateScript({ os: "fedora", selectedIds, vars: {} })
+        .script.split("\n")
+        .filter((l) => /^ailab_(step|pkg_queue|pkg_flush)( |$)/.test(l));
+
+    expect(stepsOf(["cli.ripgrep", "cli.jq", "verify.summary"])).toEqual([
+      'ailab_step "base.dnf" "dnf update + essentials" ailab_mod_0 ailab_check_0 skip',
+      'ailab_pkg_queue "cli.ripgrep" "ripgrep (rg)" ailab_check_1 skip "ripgrep" "base.dnf"',
+      'ailab_pkg_queue "cli.jq" "jq" ailab_check_2 skip "jq" "base.dnf"',
+      "ailab_pkg_flush",
+      'ailab_step "verify.summary" "Verify: print versions summary" ailab_mod_3 - skip',
+    ]);
+    // 사이에 다른 모듈이 있으면 뒤쪽 packages 모듈을 앞당기지 않음
+    expect(stepsOf(["cli.ripgrep", "verify.summary", "cli.jq"])).toEqual([
+      'ailab_step "base.dnf" "dnf update + essentials" ailab_mod_0 ailab_check_0 skip',
+      'ailab_pkg_queue "cli.ripgrep" "ripgrep (rg)" ailab_check_1 skip "ripgrep" "base.dnf"',
+      "ailab_pkg_flush",
+      'ailab_step "verify.summary" "Verify: print versions summary" ailab_mod_2 - skip',
+      'ailab_pkg_queue "cli.jq" "jq" ailab_check_3 skip "jq" "base.dnf"',
+      "ailab_pkg_flush",
+    ]);
+  });
+
+  it("묶음 설치 실패 후 모듈별 재시도: 같은 묶음의 의존성이 실패하면 blocked", () => {
+    const r = generateScript({
+      os: "debian",
+      selectedIds: ["cli.jq"],
+      vars: {},
+    });
+    // 런타임 함수까지만 쓰고 패키지 설치는 b-pkg에서 실패하도록 바꿈
+    const runtime = r.script.slice(0, r.script.indexOf("\nailab_load_state\n"));
+    const script = `${runtime}
+ailab_pkg_install() { case " $* " in *" b-pkg "*) return 1 ;; esac; }
+AILAB_ON_ERROR=continue
+ailab_load_state
+ailab_save_state
+ailab_pkg_queue "x.a" "A" - skip "a-pkg"
+ailab_pkg_queue "x.b" "B" - skip "b-pkg"
+ailab_pkg_queue "x.c" "C" - skip "c-pkg" "x.b"
+ailab_pkg_flush
+for id in x.a x.b x.c; do echo "$id=$(ailab_status_of "$id")"; done
+`;
+    const home = mkdtempSync(join(tmpdir(), "ailab-home-"));
+    try {
+      const out = spawnSync("bash", ["-s", "--", "--force"], {
+        input: script,
+        encoding: "utf8",
+        env: { ...process.env, HOME: home },
+      });
+      expect(out.stdout.trim().split("\n").slice(-3)).toEqual([
+        "x.a=ok",
+        "x.b=failed",
+        "x.c=blocked",
+      ]);
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("해시가 없거나 - 인 다운로드는 --allow-unverified 없이는 실행하지 않음", () => {
+    const r = generateScript({
+      os: "debian",
+      selectedIds: ["cli.jq"],
+      vars: {},
+    });
+    const runtime = r.script.slice(0, r.script.indexOf("\nailab_load_state\n"));
+    const dir = mkdtempSync(join(tmpdir(), "ailab-fetch-"));
+    writeFileSync(join(dir, "install.sh"), "echo RAN\n");
+    const url = `file://${dir}/install.sh`;
+    const script = `${runtime}
+for want in "" "-"; do
+  ailab_fetch_run "${url}" "$want" sh && echo "ok" || echo "refused"
+done
+`;
+    const run = (...args: string[]) =>
+      spawnSync("bash", ["-s", "--", "--force", ...args], {
+        input: script,
+        encoding: "utf8",
+        env: { ...process.env, HOME: dir },
+      }).stdout.match(/^(RAN|ok|refused)$/gm);
+    try {
+      expect(run()).toEqual(["refused", "refused"]);
+      expect(run("--allow-unverified")).toEqual(["RAN", "ok", "RAN", "ok"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("버전 고정: 값 치환 / latest 별칭 / 허용 목록 밖은 error", () => {
+    const pinned = generateScript({
+      os: "debian",
+      selectedIds: ["lang.node_lts"],
+      vars: { "lang.node_lts.node_version": "22" },
+    });
+    expect(pinned.script).toContain('nvm install "22"');
+    expect(pinned.script).toContain(
+      `ailab_check_pin "Node.js (LTS via nvm)" "22"`
+    );
+
+    const latest = generateScript({
+      os: "debian",
+      selectedIds: ["lang.node_lts"],
+      vars: {},
+    });
+    expect(latest.script).toContain('nvm install "lts/*"');
+    expect(latest.script).not.toContain(`ailab_check_pin "Node.js`);
+
+    const invalid = generateScript({
+      os: "debian",
+      selectedIds: ["lang.node_lts"],
+      vars: { "lang.node_lts.node_version": "19" },
+    });
+    expect(hasErrors(invalid.diagnostics)).toBe(true);
+    expect(invalid.script).toBe("");
+  });
+
+  it("해시가 등록된 nvm 버전은 SHA-256을 확인하고 warning 없음", () => {
+    const r = generateScript({
+      os: "ubuntu",
+      selectedIds: ["lang.nvm"],
+      vars: {},
+    });
+    expect(r.script).toContain(
+      'ailab_fetch_run "https://raw.githubusercontent.com/nvm-sh/nvm/v0.40.3/install.sh" "2d8359a64a3cb07c02389ad88ceecd43f2fa469c06104f92f98df5b6f315275f" bash'
+    );
+    expect(r.diagnostics.map((d) => d.kind)).not.toContain(
+      "unverified_download"
+    );
+    expect(r.risks.map((x) => x.moduleId)).not.toContain("lang.nvm");
+  });
+
+  it("downloads는 임시 파일 + SHA-256 확인 후 실행, 해시가 없으면 warning", () => {
+    const r = generateScript({
+      os: "debian",
+      selectedIds: ["lang.nvm"],
+      vars: { "lang.nvm.nvm_version": "v0.39.7" },
+    });
+    expect(r.script).toContain(
+      'PROFILE=/dev/null ailab_fetch_run "https://raw.githubusercontent.com/nvm-sh/nvm/v0.39.7/install.sh" "" bash'
+    );
+    expect(r.script).not.toMatch(/curl [^\n]*\| *(ba)?sh/);
+    expect(r.downloads.map((d) => [d.moduleId, d.sha256])).toEqual([
+      ["lang.nvm", undefined],
+    ]);
+    expect(r.diagnostics).toContainEqual(
+      expect.objectContaining({
+        kind: "unverified_download",
+        severity: "warning",
+        moduleId: "lang.nvm",
+      })
+    );
+  });
+
+  it("미지원 모듈은 건너뛰는 단계로", () => {
+    const r = generateScript({
+      os: "wsl",
+      selectedIds: ["dev.vscode"],
+      vars: {},
+    });
+    expect(r.diagnostics).toContainEqual(
+      expect.objectContaining({
+        kind: "unsupported_os",
+        moduleId: "dev.vscode",
+      })
+    );
+    expect(r.script).toContain(
+      'ailab_record "dev.vscode" "VS Code" unsupported'
+    );
+  });
+});
+
+describe("모듈별 입력값", () => {
+  it("sameAs: 비우면 pipeline에 있는 대상 입력값, 없으면 필수 입력 오류", () => {
+    const shared = generateScript({
+      os: "ubuntu",
+      selectedIds: ["dev.git_config", "dev.github_ssh"],
+      vars: {
+        "dev.git_config.git_name": "A",
+        "dev.git_config.git_email": "a@b.co",
+      },
+    });
+    expect(shared.script).toContain('ssh-keygen -t ed25519 -C "a@b.co"');
+
+    const alone = generateScript({
+      os: "ubuntu",
+      selectedIds: ["dev.github_ssh"],
+      vars: { "dev.git_config.git_email": "a@b.co" },
+    });
+    expect(alone.diagnostics).toContainEqual(
+      expect.objectContaining({
+        kind: "invalid_input",
+        inputKey: "dev.github_ssh.ssh_email",
+      })
+    );
+  });
+
+  it("derived: python 버전으로 실행 파일 이름 계산", () => {
+    const r = generateScript({
+      os: "ubuntu",
+      selectedIds: ["lang.python3"],
+      vars: { "lang.python3.python_version": "3.12" },
+    });
+    expect(r.script).toContain('command -v "python3.12"');
+    expect(r.script).toContain('"python3.12" --version');
+  });
+
+  it("내장 변수는 실행 시점 bash 변수로, 모듈 입력값이 있으면 그것이 우선", () => {
+    expect(applyVars("{{os}} {{arch}} {{user_home}} {{x}}", {})).toBe(
+      "$AILAB_TARGET_OS $AILAB_ARCH $HOME "
+    );
+    expect(applyVars("{{os}}", { os: "$x" })).toBe("\\$x");
+  });
+
+  it("예전 key는 그 key를 가진 모듈마다 옮기고, 모듈별 값이 우선", () => {
+    expect(
+      namespaceVars({
+        git_email: "old@b.co",
+        "dev.git_config.git_email": "new@b.co",
+        unknown: "x",
+      })
+    ).toEqual({ "dev.git_config.git_email": "new@b.co" });
+    expect(namespaceVars({ ssh_email: "a@b.co" })).toEqual({
+      "dev.github_ssh.ssh_email": "a@b.co",
+    });
+  });
+});
+
+describe("generateUninstallScript", () => {
+  it("역순으로 제거하고, 남는 모듈이 필요로 하는 건 유지", () => {
+    const r = generateUninstallScript({
+      os: "ubuntu",
+      selectedIds: ["dev.git", "lang.nvm", "lang.node_lts"],
+      removeIds: ["dev.git", "lang.node_lts"],
+    });
+    expect(r.removeIds).toEqual(["lang.node_lts"]);
+    expect(r.protectedIds).toEqual(["dev.git"]);
+    expect(r.diagnostics).toContainEqual(
+      expect.objectContaining({ kind: "kept_dependency", moduleId: "dev.git" })
+    );
+  });
+
+  it("제거 스크립트가 쓰지 않는 필수 입력은 비어 있어도 됨", () => {
+    const r = generateUninstallScript({
+      os: "ubuntu",
+      selectedIds: ["dev.git_config", "dev.github_ssh", "cli.jq"],
+    });
+    expect(r.removeIds).toEqual(["cli.jq", "dev.github_ssh", "dev.git_config"]);
+    expect(r.diagnostics.map((d) => d.kind)).not.toContain("invalid_input");
+    expect(r.script).not.toBe("");
+
+    // 제거 본문이 쓰는 입력(derived 포함)은 그대로 검증
+    const invalid = generateUninstallScript({
+      os: "ubuntu",
+      selectedIds: ["lang.python3"],
+      vars: { "lang.python3.python_version": "2.7" },
+    });
+    expect(invalid.diagnostics).toContainEqual(
+      expect.objectContaining({
+        kind: "invalid_input",
+        inputKey: "lang.python3.python_version",
+      })
+    );
+    expect(invalid.script).toBe("");
+  });
+});
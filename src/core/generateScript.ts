@@ -1,114 +1,341 @@
 // src/core/generateScript.ts
-import { type ModuleDef, MODULES, type OS } from "../registry/modules";
+import {
+  type ModuleDef,
+  MODULE_BY_ID,
+  type OverwritePolicy,
+} from "../registry/modules";
+import { type OS, OS_INFO } from "../registry/os";
+import {
+  analyzeText,
+  type ModuleRisk,
+  renderRiskSummary,
+} from "./analyzeSafety";
+import { type Diagnostic, hasErrors } from "./diagnostics";
+import {
+  expandDownloads,
+  expandMirror,
+  type ResolvedDownload,
+  unverifiedDiagnostics,
+} from "./downloads";
+import {
+  installCheckFor,
+  offlineScriptFor,
+  offlineUnsupportedReason,
+  packagesFor,
+  scriptFor,
+} from "./osSupport";
+import {
+  isSupportedOn,
+  requiresFor,
+  resolveWithDeps,
+  stableTopoSort,
+} from "./resolveDeps";
+import {
+  BUILTIN_VARS,
+  type OnErrorMode,
+  type PlanEntry,
+  renderArgParser,
+  renderDetect,
+  renderFooter,
+  renderPlan,
+  renderRcBlock,
+  renderRuntime,
+  type RunInfo,
+} from "./scriptRuntime";
+import { moduleVars, pinnedVersions, resolveInputs } from "./validateInputs";
 
 export type GenerateInput = {
   os: OS;
   selectedIds: string[];
-  vars: Record<string, string>; // {{key}} 치환값
+  vars: Record<string, string>; // 입력값 ("<module id>.<key>" → 값)
+  policies?: Record<string, OverwritePolicy>; // 모듈별 policy override
+  onError?: OnErrorMode; // 모듈 실패 시 기본 동작 (스크립트 옵션으로 바꿀 수 있음)
+  mirror?: boolean; // 오프라인 번들용: 원격 URL 대신 미러 디렉터리 (bundlePlan.ts)
 };
 
-function mapById(): Map<string, ModuleDef> {
-  return new Map(MODULES.map((m) => [m.id, m]));
+/** bash double-quote 안전 치환 (최소 방어) */
+export function escapeForDoubleQuotes(v: string): string {
+  return v
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, "\\$")
+    .replace(/`/g, "\\`");
 }
 
-/** 선택한 모듈 + requires(필수 의존성) 재귀 포함 */
-function resolveWithDeps(
-  ids: string[],
-  byId: Map<string, ModuleDef>
-): string[] {
-  const visited = new Set<string>();
-  const out: string[] = [];
-
-  const dfs = (id: string) => {
-    if (visited.has(id)) return;
-    visited.add(id);
+/** {{key}} → 모듈 값 (escape), 없으면 내장 변수 (bash 변수 그대로) */
+export function applyVars(
+  script: string,
+  vars: Record<string, string>
+): string {
+  return script.replace(/\{\{([a-zA-Z0-9_]+)\}\}/g, (_, key: string) => {
+    const builtin = BUILTIN_VARS[key];
+    if (builtin && !(key in vars)) return builtin.expr;
+    return escapeForDoubleQuotes(vars[key] ?? "");
+  });
+}
 
-    const mod = byId.get(id);
-    if (!mod) return;
+/**
+ * pipeline 식별값 (FNV-1a 32bit): OS + 실행 순서
+ * - 생성 스크립트의 체크포인트가 같은 pipeline일 때만 이어서 실행되도록
+ */
+function pipelineFingerprint(os: OS, ids: string[]): string {
+  let h = 0x811c9dc5;
+  for (const ch of `${os}:${ids.join(",")}`) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h.toString(16).padStart(8, "0");
+}
 
-    for (const dep of mod.requires ?? []) dfs(dep);
-    out.push(id);
-  };
+/** 묶어서 설치할 수 있는 모듈 (shellRc가 있으면 본문이 필요하므로 제외) */
+function isBatchable(
+  mod: ModuleDef | undefined,
+  os: OS,
+  mirror = false
+): boolean {
+  if (!mod || mod.shellRc || !packagesFor(mod, os)) return false;
+  // 미러 모드에서 offline.script가 따로 있거나 미러로 못 까는 모듈은 단독 단계
+  return (
+    !mirror || (!mod.offline?.script && !offlineUnsupportedReason(mod, os))
+  );
+}
 
-  for (const id of ids) dfs(id);
-  return out;
+/** 미러 모드면 offline.script + {{mirror_dir}} / {{artifact:name}} 치환 (입력값 치환 전) */
+function installScriptFor(
+  mod: ModuleDef,
+  os: OS,
+  mirror = false
+): string | undefined {
+  if (!mirror) return scriptFor(mod, os);
+  const s = offlineScriptFor(mod, os);
+  return s && expandMirror(mod, s);
 }
 
 /**
- * 단순 topo sort:
- * - 이미 DFS에서 dep 먼저 push 하므로, 기본적으로 올바른 순서가 나옴
- * - 다만 중복/비정상 입력 방어용으로 다시 unique 처리
+ * 실행 단위로 묶기: 연달아 있는 packages 모듈만 한 번에 설치
+ * - 사용자가 정한 순서를 바꾸지 않도록 사이에 다른 모듈이 있으면 묶지 않음
+ * - ordered가 이미 의존 순서라 묶음 안에서도 requires가 앞에 옴
  */
-function uniqueKeepOrder(ids: string[]): string[] {
-  const s = new Set<string>();
-  const r: string[] = [];
-  for (const x of ids) {
-    if (s.has(x)) continue;
-    s.add(x);
-    r.push(x);
+function groupSteps(
+  ordered: string[],
+  os: OS,
+  byId: Map<string, ModuleDef>,
+  mirror: boolean
+): string[][] {
+  const groups: string[][] = [];
+  let run: string[] | undefined;
+  for (const id of ordered) {
+    if (!isBatchable(byId.get(id), os, mirror)) {
+      groups.push([id]);
+      run = undefined;
+    } else if (run) {
+      run.push(id);
+    } else {
+      run = [id];
+      groups.push(run);
+    }
   }
-  return r;
+  return groups;
 }
 
-/** bash double-quote 안전 치환 (최소 방어) */
-function escapeForDoubleQuotes(v: string): string {
-  return v
-    .replace(/\\/g, "\\\\")
-    .replace(/"/g, '\\"')
-    .replace(/\$/g, "\\$")
-    .replace(/`/g, "\\`");
+/** override > 모듈 defaultPolicy > "skip" */
+export function effectivePolicy(
+  mod: ModuleDef,
+  policies: Record<string, OverwritePolicy> | undefined
+): OverwritePolicy {
+  return policies?.[mod.id] ?? mod.defaultPolicy ?? "skip";
 }
 
-function applyVars(script: string, vars: Record<string, string>): string {
-  return script.replace(/\{\{([a-zA-Z0-9_]+)\}\}/g, (_, key) => {
-    const raw = vars[key] ?? "";
-    return escapeForDoubleQuotes(raw);
-  });
-}
-
-export function generateScript(input: GenerateInput): {
-  script: string;
+export type GenerateResult = {
+  script: string; // diagnostics에 error가 있으면 ""
   includedIds: string[];
-} {
-  const byId = mapById();
+  diagnostics: Diagnostic[];
+  risks: ModuleRisk[]; // 위험 패턴이 걸린 모듈만 (실행 순서)
+  downloads: ResolvedDownload[]; // 실행 중 내려받는 설치 스크립트
+};
+
+export function generateScript(input: GenerateInput): GenerateResult {
+  const byId = MODULE_BY_ID;
+
+  const { ids: closure, diagnostics } = resolveWithDeps(
+    input.selectedIds,
+    input.os,
+    byId
+  );
+  const ordered = stableTopoSort(closure, input.selectedIds, input.os, byId);
+
+  // 실제로 실행될 모듈의 입력값만 검증 (defaultValue 채움 포함)
+  const runnable = ordered
+    .map((id) => byId.get(id))
+    .filter((m): m is ModuleDef => !!m && isSupportedOn(m, input.os));
+  const inputs = resolveInputs(runnable, input.vars);
+  diagnostics.push(...inputs.diagnostics);
+
+  // 깨진 스크립트를 내보내는 대신 진단만 돌려줌
+  if (hasErrors(diagnostics)) {
+    return {
+      script: "",
+      includedIds: ordered,
+      diagnostics,
+      risks: [],
+      downloads: [],
+    };
+  }
 
-  const withDeps = resolveWithDeps(input.selectedIds, byId);
-  const ordered = uniqueKeepOrder(withDeps);
+  // 모듈마다 자기 입력값 + derived만 보임 (latest 버전 고정값은 모듈이 정한 값으로)
+  const varsOf = (m: ModuleDef) => moduleVars(m, inputs.vars);
+  const versionCmdOf = (m: ModuleDef) =>
+    m.versionCmd ? applyVars(m.versionCmd, varsOf(m)) : undefined;
 
+  const mirror = !!input.mirror;
   const blocks: string[] = [];
+  const plan: PlanEntry[] = [];
+  const steps: string[] = [];
+  const risks: ModuleRisk[] = [];
+  const downloads: ResolvedDownload[] = [];
+  const report: RunInfo = {
+    os: input.os,
+    pkg: OS_INFO[input.os].pkg,
+    fingerprint: pipelineFingerprint(input.os, ordered),
+    mirror,
+    modules: [],
+    versions: [],
+    pins: pinnedVersions(runnable, inputs.vars).flatMap((p) => {
+      const mod = byId.get(p.moduleId)!;
+      const cmd = versionCmdOf(mod);
+      return cmd
+        ? [{ name: escapeForDoubleQuotes(mod.name), version: p.version, cmd }]
+        : [];
+    }),
+  };
 
-  blocks.push(`#!/usr/bin/env bash
-set -e
+  let n = 0;
+  for (const group of groupSteps(ordered, input.os, byId, mirror)) {
+    const batch = isBatchable(byId.get(group[0]), input.os, mirror);
+    for (const id of group) {
+      const mod = byId.get(id);
+      if (!mod) continue;
+      const i = n++;
 
-echo "===================================="
-echo "AI Lab Install Script Builder - RUN"
-echo "OS: ${input.os}"
-echo "===================================="
-`);
+      const label = escapeForDoubleQuotes(`${mod.name} (${mod.id})`);
+      const name = escapeForDoubleQuotes(mod.name);
+      const policy = effectivePolicy(mod, input.policies);
+      report.modules.push({ id: mod.id, name });
+      const offlineReason = mirror
+        ? offlineUnsupportedReason(mod, input.os)
+        : undefined;
+      if (offlineReason) {
+        // 미러로는 설치할 수 없음: 미리 설치돼 있어야 함 (뒤 모듈은 막지 않음)
+        plan.push({ id: mod.id, label, policy, supported: false });
+        steps.push(
+          `echo "[SKIP] ${name} (not available offline: install it beforehand)"\nailab_record "${mod.id}" "${name}" unsupported`
+        );
+        diagnostics.push({
+          kind: "offline_unsupported",
+          severity: "warning",
+          moduleId: mod.id,
+          message: `${mod.name}: ${offlineReason}`,
+        });
+        continue;
+      }
+      const s = installScriptFor(mod, input.os, mirror);
+      if (!s) {
+        plan.push({ id: mod.id, label, policy, supported: false });
+        steps.push(
+          `echo "[SKIP] ${name} (not supported on ${OS_INFO[input.os].label})"\nailab_record "${mod.id}" "${name}" unsupported`
+        );
+        continue;
+      }
 
-  for (const id of ordered) {
-    const mod = byId.get(id);
-    if (!mod) continue;
+      const vars = varsOf(mod);
+      const expanded = expandDownloads(mod, applyVars(s, vars), (url) =>
+        applyVars(url, vars)
+      );
+      downloads.push(...expanded.downloads);
+      diagnostics.push(...unverifiedDiagnostics(mod, expanded.downloads));
 
-    const s = mod.script[input.os];
-    if (!s) {
-      blocks.push(`echo "[SKIP] ${mod.name} (not supported on ${input.os})"`);
-      continue;
-    }
+      // installCheck / 본문은 함수로: plan(--dry-run)과 실제 실행이 같은 check를 씀
+      const rawCheck = installCheckFor(mod, input.os);
+      const check = rawCheck && applyVars(rawCheck, vars);
+      const checkFn = check ? `ailab_check_${i}` : undefined;
+      const rcBlock = mod.shellRc && renderRcBlock(mod.id, mod.shellRc.lines);
+      const versionCmd = versionCmdOf(mod);
+
+      // 위험 분석은 이 모듈이 스크립트에 넣는 것 전부 (입력값 치환 후)
+      // - 묶음 설치도 본문의 pkg_install 줄로 잡힘
+      const findings = analyzeText(
+        [check, expanded.text, rcBlock, versionCmd].filter(Boolean).join("\n"),
+        OS_INFO[input.os].pkg
+      );
+      if (findings.length > 0) {
+        risks.push({ moduleId: mod.id, name: mod.name, findings });
+      }
+
+      blocks.push(
+        `# --------------------------------------------\n# ${mod.name} (${mod.id})\n# --------------------------------------------`
+      );
+      if (checkFn) blocks.push(`${checkFn}() {\n  ${check}\n}`);
 
-    blocks.push(
-      `\n# --------------------------------------------\n# ${mod.name} (${mod.id})\n# --------------------------------------------\n`
-    );
-    blocks.push(applyVars(s, input.vars));
+      plan.push({ id: mod.id, label, checkFn, policy, supported: true });
+      if (versionCmd) report.versions.push({ id: mod.id, cmd: versionCmd });
+      const deps = requiresFor(mod, input.os)
+        .map((d) => ` "${d}"`)
+        .join("");
+
+      if (batch) {
+        const pkgs = packagesFor(mod, input.os)!.join(" ");
+        steps.push(
+          `ailab_pkg_queue "${mod.id}" "${name}" ${checkFn ?? "-"} ${policy} "${pkgs}"${deps}`
+        );
+        blocks.push("");
+        continue;
+      }
+
+      const bodyFn = `ailab_mod_${i}`;
+      const body = [expanded.text.trim()];
+      if (rcBlock) body.push(rcBlock);
+      blocks.push(`${bodyFn}() {\n${body.join("\n")}\n}\n`);
+      steps.push(
+        `ailab_step "${mod.id}" "${name}" ${bodyFn} ${checkFn ?? "-"} ${policy}${deps}`
+      );
+    }
+    if (batch) steps.push("ailab_pkg_flush");
   }
 
-  blocks.push(`\necho "===================================="
-echo "[DONE] Script finished."
+  const header = `#!/usr/bin/env bash
+${renderRiskSummary(risks)}
+set -euo pipefail
+
+${renderArgParser(input.onError ?? "stop", mirror)}
+
+echo "===================================="
+echo "AI Lab Install Script Builder - RUN"
+echo "OS: ${OS_INFO[input.os].label} (${input.os})"
 echo "===================================="
-`);
+${renderDetect(input.os)}
+
+${renderRuntime(report)}
+`;
+
+  blocks.unshift(header);
+  blocks.push(
+    "ailab_load_state",
+    renderPlan(plan),
+    "",
+    "ailab_start_log",
+    "ailab_save_state",
+    ...(mirror ? ["ailab_mirror_prepare"] : []),
+    ...steps,
+    "",
+    renderFooter(),
+    ""
+  );
 
   return {
     script: blocks.join("\n"),
     includedIds: ordered,
+    diagnostics,
+    risks,
+    downloads,
   };
 }
@@ -0,0 +1,241 @@
+// src/core/generateUninstallScript.ts
+import { MODULE_BY_ID, type ModuleDef } from "../registry/modules";
+import { type OS, OS_INFO } from "../registry/os";
+import {
+  analyzeText,
+  type ModuleRisk,
+  renderRiskSummary,
+} from "./analyzeSafety";
+import { type Diagnostic, hasErrors } from "./diagnostics";
+import { applyVars, escapeForDoubleQuotes } from "./generateScript";
+import {
+  downloadRefs,
+  expandDownloads,
+  type ResolvedDownload,
+  unverifiedDiagnostics,
+} from "./downloads";
+import { installCheckFor, uninstallFor } from "./osSupport";
+import {
+  isSupportedOn,
+  resolveWithDeps,
+  stableTopoSort,
+  transitiveRequires,
+} from "./resolveDeps";
+import {
+  renderDetect,
+  renderRcRemove,
+  renderUninstallArgParser,
+  renderUninstallConfirm,
+  renderUninstallFooter,
+  renderUninstallRuntime,
+} from "./scriptRuntime";
+import { inputId, moduleVars, resolveInputs } from "./validateInputs";
+
+export type UninstallInput = {
+  os: OS;
+  selectedIds: string[]; // 현재 Pipeline
+  removeIds?: string[]; // 그중 제거할 모듈 (기본: 전부)
+  vars?: Record<string, string>; // 설치 때와 같은 입력값 (고정 버전 등)
+};
+
+export type UninstallResult = {
+  script: string; // diagnostics에 error가 있으면 ""
+  removeIds: string[]; // 실제 제거 순서 (의존하는 쪽 먼저)
+  protectedIds: string[]; // 남는 모듈이 필요로 해서 유지
+  diagnostics: Diagnostic[];
+  risks: ModuleRisk[]; // 제거 본문에서 걸린 위험 패턴
+  downloads: ResolvedDownload[]; // 실행 중 내려받는 제거 스크립트
+};
+
+const VAR_RE = /\{\{([a-zA-Z0-9_]+)\}\}/g;
+
+/**
+ * 제거 스크립트가 쓰는 입력 key (제거 본문 / installCheck / 본문이 받는 download URL)
+ * - derived를 쓰면 어느 입력으로 계산하는지 모르므로 입력 전부
+ */
+function uninstallInputKeys(mod: ModuleDef, os: OS): string[] {
+  const body = uninstallFor(mod, os) ?? "";
+  const texts = [
+    body,
+    installCheckFor(mod, os) ?? "",
+    ...downloadRefs(body).map((name) => mod.downloads?.[name]?.url ?? ""),
+  ];
+  const used = new Set(
+    texts.flatMap((t) => [...t.matchAll(VAR_RE)].map((m) => m[1]))
+  );
+  const inputs = (mod.inputs ?? []).map((inp) => inp.key);
+  if (mod.derived?.some((d) => used.has(d.key))) return inputs;
+  return inputs.filter((key) => used.has(key));
+}
+
+/**
+ * 제거 스크립트 생성
+ * - 직접 고른 모듈만 제거 (자동 포함된 의존성은 원래 있던 것일 수 있으므로 유지)
+ * - 남는 모듈이 (전이적으로) requires 하는 모듈은 제거 대상에서 빠짐
+ * - 설치의 역순: 의존하는 모듈을 먼저 지움
+ */
+export function generateUninstallScript(
+  input: UninstallInput
+): UninstallResult {
+  const byId = MODULE_BY_ID;
+
+  const { ids: closure, diagnostics } = resolveWithDeps(
+    input.selectedIds,
+    input.os,
+    byId
+  );
+  if (hasErrors(diagnostics)) {
+    return {
+      script: "",
+      removeIds: [],
+      protectedIds: [],
+      diagnostics,
+      risks: [],
+      downloads: [],
+    };
+  }
+  const ordered = stableTopoSort(closure, input.selectedIds, input.os, byId);
+
+  const wanted = new Set(
+    (input.removeIds ?? input.selectedIds).filter(
+      (id) => input.selectedIds.includes(id) && byId.has(id)
+    )
+  );
+
+  // 남는 모듈이 필요로 하는 건 제거하지 않음 (보호된 모듈의 의존성도 계속 보호)
+  const protectedIds: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const keep of ordered) {
+      if (wanted.has(keep)) continue;
+      for (const dep of transitiveRequires(keep, input.os, byId)) {
+        if (!wanted.has(dep)) continue;
+        wanted.delete(dep);
+        protectedIds.push(dep);
+        changed = true;
+        diagnostics.push({
+          kind: "kept_dependency",
+          severity: "warning",
+          moduleId: dep,
+          message: `${byId.get(dep)!.name}은(는) 남아 있는 ${byId.get(keep)!.name}이(가) 필요로 해서 제거하지 않음`,
+          path: [keep, dep],
+        });
+      }
+    }
+  }
+
+  // installCheck도 uninstall도 없는 모듈(verify 등)은 설치하는 게 없으므로 제외
+  const removeIds = ordered
+    .filter((id) => {
+      const mod = byId.get(id)!;
+      return (
+        wanted.has(id) &&
+        isSupportedOn(mod, input.os) &&
+        Boolean(uninstallFor(mod, input.os) || installCheckFor(mod, input.os))
+      );
+    })
+    .reverse();
+
+  // 설치 때 고른 버전을 지워야 하므로 입력값도 같은 규칙으로 정리
+  // 검증은 제거 스크립트가 실제로 쓰는 입력만 (git_email 등이 비어 있어도 제거는 가능)
+  const removing = removeIds.map((id) => byId.get(id)!);
+  const inputs = resolveInputs(removing, input.vars ?? {});
+  const used = new Set(
+    removing.flatMap((mod) =>
+      uninstallInputKeys(mod, input.os).map((key) => inputId(mod.id, key))
+    )
+  );
+  diagnostics.push(
+    ...inputs.diagnostics.filter((d) => d.inputKey && used.has(d.inputKey))
+  );
+  if (hasErrors(diagnostics)) {
+    return {
+      script: "",
+      removeIds,
+      protectedIds,
+      diagnostics,
+      risks: [],
+      downloads: [],
+    };
+  }
+
+  const blocks: string[] = [];
+  const steps: string[] = [];
+  const risks: ModuleRisk[] = [];
+  const downloads: ResolvedDownload[] = [];
+  removeIds.forEach((id, i) => {
+    const mod = byId.get(id)!;
+    const name = escapeForDoubleQuotes(mod.name);
+    const vars = moduleVars(mod, inputs.vars);
+    const body = uninstallFor(mod, input.os);
+    if (!body) {
+      diagnostics.push({
+        kind: "no_uninstall",
+        severity: "warning",
+        moduleId: id,
+        message: `${mod.name}은(는) 제거 스크립트가 없어 직접 제거해야 함`,
+      });
+      steps.push(`ailab_manual "${id}" "${name}"`);
+      return;
+    }
+
+    const rawCheck = installCheckFor(mod, input.os);
+    const check = rawCheck && applyVars(rawCheck, vars);
+    const checkFn = check ? `ailab_check_${i}` : undefined;
+    const bodyFn = `ailab_unmod_${i}`;
+    blocks.push(
+      `# --------------------------------------------\n# ${mod.name} (${mod.id})\n# --------------------------------------------`
+    );
+    if (checkFn) blocks.push(`${checkFn}() {\n  ${check}\n}`);
+    const expanded = expandDownloads(mod, applyVars(body, vars), (url) =>
+      applyVars(url, vars)
+    );
+    downloads.push(...expanded.downloads);
+    diagnostics.push(...unverifiedDiagnostics(mod, expanded.downloads));
+    const lines = [expanded.text.trim()];
+    const findings = analyzeText(lines[0], OS_INFO[input.os].pkg);
+    if (findings.length > 0) {
+      risks.push({ moduleId: id, name: mod.name, findings });
+    }
+    if (mod.shellRc) lines.push(renderRcRemove(mod.id));
+    blocks.push(`${bodyFn}() {\n${lines.join("\n")}\n}\n`);
+    steps.push(`ailab_remove "${id}" "${name}" ${bodyFn} ${checkFn ?? "-"}`);
+  });
+
+  const listed = removeIds.map((id) => `echo "  - ${id}"`).join("\n");
+  const header = `#!/usr/bin/env bash
+${renderRiskSummary(risks)}
+set -euo pipefail
+
+${renderUninstallArgParser()}
+
+echo "===================================="
+echo "AI Lab Install Script Builder - UNINSTALL"
+echo "OS: ${OS_INFO[input.os].label} (${input.os})"
+echo "===================================="
+${renderDetect(input.os)}
+${listed}
+
+${renderUninstallRuntime(OS_INFO[input.os].pkg)}
+`;
+
+  blocks.unshift(header);
+  blocks.push(
+    renderUninstallConfirm(removeIds.length),
+    "",
+    ...steps,
+    "",
+    renderUninstallFooter(),
+    ""
+  );
+
+  return {
+    script: blocks.join("\n"),
+    removeIds,
+    protectedIds,
+    diagnostics,
+    risks,
+    downloads,
+  };
+}
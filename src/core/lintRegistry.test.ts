@@ -0,0 +1,202 @@
+// src/core/lintRegistry.test.ts
+import { describe, expect, it } from "vitest";
+
+import { type ModuleDef, MODULES } from "../registry/modules";
+import { lintRegistry, type RegistryIssueKind } from "./lintRegistry";
+
+/** 모든 OS에서 유효한 최소 모듈 */
+function mod(over: Partial<ModuleDef> & { id: string }): ModuleDef {
+  return {
+    name: over.id,
+    category: ["convenience"],
+    tags: [],
+    shortDesc: "",
+    script: { mac: "true", linux: "true" },
+    ...over,
+  };
+}
+
+function kinds(modules: ModuleDef[]): RegistryIssueKind[] {
+  return lintRegistry(modules).map((i) => i.kind);
+}
+
+describe("lintRegistry", () => {
+  it("현재 MODULES에는 문제가 없음", () => {
+    expect(lintRegistry(MODULES)).toEqual([]);
+  });
+
+  it("중복 id", () => {
+    expect(kinds([mod({ id: "a" }), mod({ id: "a" })])).toEqual([
+      "duplicate_id",
+    ]);
+  });
+
+  it("requires / suggests의 없는 id (OS별 requires 포함)", () => {
+    const issues = lintRegistry([
+      mod({ id: "a", requires: { mac: ["nope"], linux: ["b"] } }),
+      mod({ id: "b", suggests: [{ id: "gone", reason: "" }] }),
+    ]);
+    expect(issues).toEqual([
+      {
+        kind: "unknown_ref",
+        moduleId: "a",
+        message: "requires에 없는 모듈 id: nope",
+      },
+      {
+        kind: "unknown_ref",
+        moduleId: "b",
+        message: "suggests에 없는 모듈 id: gone",
+      },
+    ]);
+  });
+
+  it("inputs에 없는 {{var}} (script / installCheck / uninstall / versionCmd)", () => {
+    const issues = lintRegistry([
+      mod({
+        id: "a",
+        inputs: [{ key: "name", label: "Name" }],
+        script: { mac: `echo "{{name}}"`, linux: `echo "{{typo}}"` },
+        installCheck: { mac: `[ -f "{{path}}" ]` },
+        uninstall: { linux: `rm "{{path}}"` },
+        versionCmd: `tool{{ver}} --version`,
+      }),
+    ]);
+    expect(issues.map((i) => i.message).sort()).toEqual([
+      "{{path}}에 해당하는 inputs / derived 항목이 없음",
+      "{{typo}}에 해당하는 inputs / derived 항목이 없음",
+      "{{ver}}에 해당하는 inputs / derived 항목이 없음",
+    ]);
+  });
+
+  it("input key는 모듈마다 따로: 모듈 안 중복 / 내장 변수 / 없는 sameAs만 잡음", () => {
+    const issues = lintRegistry([
+      mod({ id: "a", inputs: [{ key: "email", label: "E" }] }),
+      mod({
+        id: "b",
+        inputs: [
+          { key: "email", label: "E", sameAs: "a.email" },
+          { key: "os", label: "OS" },
+          { key: "name", label: "N", sameAs: "a.name" },
+        ],
+        derived: [{ key: "email", desc: "dup", value: () => "" }],
+      }),
+    ]);
+    expect(issues.map((i) => `${i.kind}: ${i.message}`)).toEqual([
+      `input_key_clash: "os"가 내장 변수와 겹침`,
+      `input_key_clash: "email"가 같은 모듈 안에서 중복됨`,
+      "unknown_ref: name의 sameAs에 없는 입력: a.name",
+    ]);
+  });
+
+  it("스크립트도 notSupportedReason도 없는 OS", () => {
+    const issues = lintRegistry([
+      mod({ id: "a", script: { mac: "true", debian: "true" } }),
+    ]);
+    expect(issues.every((i) => i.kind === "missing_script")).toBe(true);
+    expect(issues.map((i) => i.message)).toEqual([
+      "Fedora / RHEL(fedora) 스크립트가 없고 notSupportedReason도 없음",
+      "Arch Linux(arch) 스크립트가 없고 notSupportedReason도 없음",
+    ]);
+
+    // 계열 / linux 사유로 덮으면 통과
+    expect(
+      kinds([
+        mod({
+          id: "a",
+          script: { mac: "true", debian: "true" },
+          notSupportedReason: { linux: "debian 계열만" },
+        }),
+      ])
+    ).toEqual([]);
+  });
+
+  it("packages 모듈은 패키지 매니저 key 기준", () => {
+    const issues = lintRegistry([
+      mod({
+        id: "a",
+        script: undefined,
+        packages: { check: "a", brew: "a", apt: "a" },
+      }),
+    ]);
+    expect(issues.map((i) => i.message)).toEqual([
+      "Fedora / RHEL(fedora) 스크립트가 없고 notSupportedReason도 없음",
+      "Arch Linux(arch) 스크립트가 없고 notSupportedReason도 없음",
+    ]);
+  });
+
+  it("downloads에 없는 {{download:name}}", () => {
+    const issues = lintRegistry([
+      mod({
+        id: "a",
+        script: {
+          mac: "{{download:install}} sh",
+          linux: "{{download:typo}} sh",
+        },
+        downloads: { install: { url: "https://x.dev/{{v}}/install.sh" } },
+      }),
+    ]);
+    expect(issues.map((i) => i.message)).toEqual([
+      "{{v}}에 해당하는 inputs / derived 항목이 없음",
+      "{{download:typo}}에 해당하는 downloads 항목이 없음",
+    ]);
+  });
+
+  it("치환되지 않는 {{...}}: 모르는 형식 / shellRc / offline 밖의 mirror_dir", () => {
+    const issues = lintRegistry([
+      mod({
+        id: "a",
+        inputs: [{ key: "email", label: "E" }],
+        derived: [{ key: "bin", desc: "", value: () => "x" }],
+        script: {
+          mac: `git config user.email "{{ email }}"`,
+          linux: `"{{bin}}" -C "{{user_home}}" "{{mirror_dir}}" "{{git-email}}"`,
+        },
+        shellRc: { lines: [`export PATH="{{bin}}:$PATH"`] },
+      }),
+    ]);
+    expect(issues.map((i) => i.message)).toEqual([
+      "{{mirror_dir}}는 offline 스크립트에서만 쓸 수 있음",
+      "{{ email }}는 치환되지 않는 형식",
+      "{{git-email}}는 치환되지 않는 형식",
+      "shellRc 줄의 {{bin}}는 치환되지 않음",
+    ]);
+  });
+
+  it("offline: 없는 {{artifact:name}} / {{mirror_dir}}는 입력값이 아님", () => {
+    const issues = lintRegistry([
+      mod({
+        id: "a",
+        offline: {
+          artifacts: [{ name: "a.tgz", url: "https://x.dev/{{v}}/a.tgz" }],
+          script: {
+            mac: `tar -xzf "{{artifact:a.tgz}}" -C "{{mirror_dir}}"`,
+            linux: `tar -xzf "{{artifact:b.tgz}}"`,
+          },
+        },
+      }),
+    ]);
+    expect(issues.map((i) => i.message)).toEqual([
+      "{{v}}에 해당하는 inputs / derived 항목이 없음",
+      "{{artifact:b.tgz}}에 해당하는 offline.artifacts 항목이 없음",
+    ]);
+  });
+
+  it("버전 고정 입력: 기본값이 허용 목록 밖 / versionCmd 없음", () => {
+    expect(
+      kinds([
+        mod({
+          id: "a",
+          inputs: [
+            {
+              key: "v",
+              label: "V",
+              defaultValue: "9",
+              pin: { versions: ["2", "1"] },
+            },
+          ],
+          script: { mac: "echo {{v}}", linux: "echo {{v}}" },
+        }),
+      ])
+    ).toEqual(["invalid_pin", "invalid_pin"]);
+  });
+});
@@ -0,0 +1,220 @@
+// src/core/lintRegistry.ts
+import type { DepsByOS, ModuleDef } from "../registry/modules";
+import { OS_INFO, OS_LIST, pickForOS } from "../registry/os";
+import { artifactRefs, downloadRefs } from "./downloads";
+import { scriptFor } from "./osSupport";
+import { BUILTIN_VARS } from "./scriptRuntime";
+import { inputId, LATEST } from "./validateInputs";
+
+export type RegistryIssueKind =
+  | "duplicate_id"
+  | "unknown_ref" // requires / suggests / sameAs 대상이 없음
+  | "undefined_var" // {{var}}에 맞는 inputs / derived / 내장 변수가 없음 (치환되지 않는 {{...}} 포함)
+  | "input_key_clash" // 한 모듈 안에서 inputs / derived / 내장 변수 이름이 겹침
+  | "missing_script" // 스크립트도 notSupportedReason도 없는 OS
+  | "invalid_pin" // 버전 고정 입력 설정 오류
+  | "unknown_download" // {{download:name}}에 맞는 downloads 항목이 없음
+  | "unknown_artifact"; // {{artifact:name}}에 맞는 offline.artifacts 항목이 없음
+
+export type RegistryIssue = {
+  kind: RegistryIssueKind;
+  moduleId: string;
+  message: string;
+};
+
+const VAR_RE = /\{\{([a-zA-Z0-9_]+)\}\}/g;
+/** {{...}} 전부 (generator가 모르는 형식은 그대로 스크립트에 남음) */
+const PLACEHOLDER_RE = /\{\{([^{}]*)\}\}/g;
+const KNOWN_PLACEHOLDER_RE =
+  /^([a-zA-Z0-9_]+|download:[a-zA-Z0-9_]+|artifact:[a-zA-Z0-9_.-]+)$/;
+
+/** inputs 없이 generator가 채우는 변수 (mirror_dir는 미러 모드 스크립트 전용) */
+const BUILTIN_KEYS = new Set([...Object.keys(BUILTIN_VARS), "mirror_dir"]);
+
+function depIds(deps: DepsByOS | undefined): string[] {
+  if (!deps) return [];
+  if (Array.isArray(deps)) return deps;
+  return Object.values(deps).flat();
+}
+
+/** generator가 {{var}}를 치환하는 필드 전부 (offline: {{mirror_dir}}도 쓸 수 있는 것) */
+function templatedTexts(mod: ModuleDef): {
+  online: string[];
+  offline: string[];
+} {
+  return {
+    online: [
+      ...Object.values(mod.script ?? {}),
+      ...Object.values(mod.uninstall ?? {}),
+      ...Object.values(mod.installCheck ?? {}),
+      mod.versionCmd ?? "",
+      ...Object.values(mod.downloads ?? {}).map((d) => d.url),
+      ...(mod.offline?.artifacts ?? []).flatMap((a) =>
+        typeof a.url === "string" ? [a.url] : Object.values(a.url)
+      ),
+    ],
+    offline: [
+      ...Object.values(mod.offline?.script ?? {}),
+      ...Object.values(mod.offline?.fetch?.script ?? {}),
+    ],
+  };
+}
+
+function varsIn(texts: string[]): Set<string> {
+  return new Set(
+    texts.flatMap((t) => [...t.matchAll(VAR_RE)].map((m) => m[1]))
+  );
+}
+
+/**
+ * MODULES 일관성 검사 (문제 전부 모아서 반환, 없으면 [])
+ * - 생성 시점 diagnostics와 달리 pipeline과 상관없는 registry 자체 오류
+ * - CLI `lint` 와 테스트에서 사용
+ */
+export function lintRegistry(modules: ModuleDef[]): RegistryIssue[] {
+  const issues: RegistryIssue[] = [];
+  const ids = new Set<string>();
+  const inputIds = new Set(
+    modules.flatMap((m) => (m.inputs ?? []).map((i) => inputId(m.id, i.key)))
+  );
+
+  for (const mod of modules) {
+    if (ids.has(mod.id)) {
+      issues.push({
+        kind: "duplicate_id",
+        moduleId: mod.id,
+        message: `모듈 id가 중복됨: ${mod.id}`,
+      });
+    }
+    ids.add(mod.id);
+  }
+
+  for (const mod of modules) {
+    const refs: [string, string[]][] = [
+      ["requires", depIds(mod.requires)],
+      ["suggests", (mod.suggests ?? []).map((sg) => sg.id)],
+    ];
+    for (const [field, refIds] of refs) {
+      for (const id of new Set(refIds)) {
+        if (ids.has(id)) continue;
+        issues.push({
+          kind: "unknown_ref",
+          moduleId: mod.id,
+          message: `${field}에 없는 모듈 id: ${id}`,
+        });
+      }
+    }
+
+    // 모듈이 볼 수 있는 이름: 자기 inputs → derived 순, 내장 변수와 겹치면 안 됨
+    const keys = new Set<string>();
+    for (const key of [
+      ...(mod.inputs ?? []).map((i) => i.key),
+      ...(mod.derived ?? []).map((d) => d.key),
+    ]) {
+      if (keys.has(key) || BUILTIN_KEYS.has(key)) {
+        issues.push({
+          kind: "input_key_clash",
+          moduleId: mod.id,
+          message: `"${key}"가 ${keys.has(key) ? "같은 모듈 안에서 중복됨" : "내장 변수와 겹침"}`,
+        });
+      }
+      keys.add(key);
+    }
+    // 치환되지 않는 {{var}}는 생성 시 빈 값이 되므로 여기서 잡음
+    const texts = templatedTexts(mod);
+    const online = varsIn(texts.online);
+    for (const key of new Set([...online, ...varsIn(texts.offline)])) {
+      if (keys.has(key) || key in BUILTIN_VARS) continue;
+      if (key === "mirror_dir" && !online.has(key)) continue;
+      issues.push({
+        kind: "undefined_var",
+        moduleId: mod.id,
+        message:
+          key === "mirror_dir"
+            ? "{{mirror_dir}}는 offline 스크립트에서만 쓸 수 있음"
+            : `{{${key}}}에 해당하는 inputs / derived 항목이 없음`,
+      });
+    }
+    // 모르는 형식 / shellRc 줄의 {{...}}는 치환 없이 스크립트에 그대로 남음
+    const placeholders = (t: string) =>
+      [...t.matchAll(PLACEHOLDER_RE)].map((m) => m[1]);
+    for (const p of new Set(
+      [...texts.online, ...texts.offline].flatMap(placeholders)
+    )) {
+      if (KNOWN_PLACEHOLDER_RE.test(p)) continue;
+      issues.push({
+        kind: "undefined_var",
+        moduleId: mod.id,
+        message: `{{${p}}}는 치환되지 않는 형식`,
+      });
+    }
+    for (const p of new Set((mod.shellRc?.lines ?? []).flatMap(placeholders))) {
+      issues.push({
+        kind: "undefined_var",
+        moduleId: mod.id,
+        message: `shellRc 줄의 {{${p}}}는 치환되지 않음`,
+      });
+    }
+
+    const scripts = [
+      ...Object.values(mod.script ?? {}),
+      ...Object.values(mod.uninstall ?? {}),
+    ];
+    for (const name of new Set(scripts.flatMap(downloadRefs))) {
+      if (mod.downloads?.[name]) continue;
+      issues.push({
+        kind: "unknown_download",
+        moduleId: mod.id,
+        message: `{{download:${name}}}에 해당하는 downloads 항목이 없음`,
+      });
+    }
+
+    const offlineScripts = Object.values(mod.offline?.script ?? {});
+    for (const name of new Set(offlineScripts.flatMap(artifactRefs))) {
+      if (mod.offline?.artifacts?.some((a) => a.name === name)) continue;
+      issues.push({
+        kind: "unknown_artifact",
+        moduleId: mod.id,
+        message: `{{artifact:${name}}}에 해당하는 offline.artifacts 항목이 없음`,
+      });
+    }
+
+    for (const inp of mod.inputs ?? []) {
+      if (inp.sameAs && !inputIds.has(inp.sameAs)) {
+        issues.push({
+          kind: "unknown_ref",
+          moduleId: mod.id,
+          message: `${inp.key}의 sameAs에 없는 입력: ${inp.sameAs}`,
+        });
+      }
+
+      if (!inp.pin) continue;
+      const allowed = [...inp.pin.versions, LATEST];
+      if (inp.defaultValue && !allowed.includes(inp.defaultValue)) {
+        issues.push({
+          kind: "invalid_pin",
+          moduleId: mod.id,
+          message: `${inp.key}의 defaultValue "${inp.defaultValue}"가 허용 버전(${allowed.join(", ")})에 없음`,
+        });
+      }
+      if (!mod.versionCmd) {
+        issues.push({
+          kind: "invalid_pin",
+          moduleId: mod.id,
+          message: `${inp.key}는 버전 고정 입력인데 versionCmd가 없어 확인할 수 없음`,
+        });
+      }
+    }
+
+    for (const os of OS_LIST) {
+      if (scriptFor(mod, os) || pickForOS(mod.notSupportedReason, os)) continue;
+      issues.push({
+        kind: "missing_script",
+        moduleId: mod.id,
+        message: `${OS_INFO[os].label}(${os}) 스크립트가 없고 notSupportedReason도 없음`,
+      });
+    }
+  }
+
+  return issues;
+}
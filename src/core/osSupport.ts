@@ -0,0 +1,74 @@
+// src/core/osSupport.ts
+import type { ModuleDef } from "../registry/modules";
+import { type OS, OS_INFO, osLookupChain, pickForOS } from "../registry/os";
+
+function asList(v: string | string[]): string[] {
+  return typeof v === "string" ? [v] : v;
+}
+
+/** packages 모듈: 해당 OS 패키지 매니저로 설치할 패키지 (없으면 미지원) */
+export function packagesFor(mod: ModuleDef, os: OS): string[] | undefined {
+  if (!mod.packages || pickForOS(mod.notSupportedReason, os)) return undefined;
+  const names = mod.packages[OS_INFO[os].pkg];
+  return names ? asList(names) : undefined;
+}
+
+/**
+ * 해당 OS의 설치 스크립트
+ * - 가장 구체적인 key부터 찾되, notSupportedReason이 먼저 나오면 미지원
+ *   (예: wsl은 ubuntu 스크립트를 물려받지만 wsl 사유가 있으면 건너뜀)
+ * - packages 모듈은 ailab_pkg_install (generator는 보통 여러 모듈을 묶어서 설치)
+ */
+export function scriptFor(mod: ModuleDef, os: OS): string | undefined {
+  if (mod.packages) {
+    const pkgs = packagesFor(mod, os);
+    if (!pkgs) return undefined;
+    return `echo "[PKG] Installing ${pkgs.join(" ")}..."\nailab_pkg_install ${pkgs.join(" ")}`;
+  }
+  for (const key of osLookupChain(os)) {
+    if (mod.notSupportedReason?.[key]) return undefined;
+    const s = mod.script?.[key];
+    if (s) return s;
+  }
+  return undefined;
+}
+
+/** 미지원 사유 (UI / 진단 메시지용) */
+export function unsupportedReason(mod: ModuleDef, os: OS): string {
+  return (
+    pickForOS(mod.notSupportedReason, os) ??
+    `${OS_INFO[os].label}에서 지원되지 않음`
+  );
+}
+
+/** installCheck가 없으면 packages.check 실행 파일 중 하나라도 있는지 */
+export function installCheckFor(mod: ModuleDef, os: OS): string | undefined {
+  const check = pickForOS(mod.installCheck, os);
+  if (check || !mod.packages) return check;
+  return asList(mod.packages.check)
+    .map((bin) => `command -v ${bin} >/dev/null 2>&1`)
+    .join(" || ");
+}
+
+/** uninstall이 있으면 그것만, 없으면 packages를 ailab_pkg_remove */
+export function uninstallFor(mod: ModuleDef, os: OS): string | undefined {
+  if (mod.uninstall || !mod.packages) return pickForOS(mod.uninstall, os);
+  const pkgs = packagesFor(mod, os);
+  if (!pkgs) return undefined;
+  return `echo "[PKG] Removing ${pkgs.join(" ")}..."\nailab_pkg_remove ${pkgs.join(" ")}`;
+}
+
+/** 미러(오프라인) 모드에서 설치할 수 없는 이유 (설치 가능하면 undefined) */
+export function offlineUnsupportedReason(
+  mod: ModuleDef,
+  os: OS
+): string | undefined {
+  return pickForOS(mod.offline?.notSupportedReason, os);
+}
+
+/** 미러 모드 설치 스크립트: offline.script가 없으면 원래 스크립트 */
+export function offlineScriptFor(mod: ModuleDef, os: OS): string | undefined {
+  if (offlineUnsupportedReason(mod, os) || !scriptFor(mod, os))
+    return undefined;
+  return pickForOS(mod.offline?.script, os) ?? scriptFor(mod, os);
+}
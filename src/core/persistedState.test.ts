@@ -0,0 +1,132 @@
+// src/core/persistedState.test.ts
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  SECRET,
+  SECRET_ID,
+  SECRET_KEY,
+  withSensitiveInput,
+} from "../test/sensitiveInput";
+import {
+  CURRENT_VERSION,
+  restorePersistedState,
+  serializePersistedState,
+} from "./persistedState";
+
+vi.mock("../registry/modules", async (importOriginal) =>
+  withSensitiveInput(await importOriginal())
+);
+
+describe("sensitive 입력값", () => {
+  const state = {
+    os: "ubuntu" as const,
+    selectedIds: ["dev.github_ssh"],
+    vars: {
+      "dev.github_ssh.ssh_email": "a@b.co",
+      [SECRET_ID]: SECRET,
+    },
+    policies: {},
+  };
+
+  it("opt-in 없으면 저장하지 않음", () => {
+    const json = serializePersistedState(state, false);
+    expect(json).not.toContain(SECRET);
+    expect(restorePersistedState(json).state.vars).toEqual({
+      "dev.github_ssh.ssh_email": "a@b.co",
+    });
+  });
+
+  it("opt-in이면 저장 / 복원", () => {
+    const r = restorePersistedState(serializePersistedState(state, true));
+    expect(r.persistSensitive).toBe(true);
+    expect(r.state.vars).toEqual(state.vars);
+  });
+
+  it("opt-in 꺼진 저장본에 섞여 있어도 복원하지 않음", () => {
+    const r = restorePersistedState(
+      JSON.stringify({ version: 3, ...state, persistSensitive: false })
+    );
+    expect(r.state.vars).not.toHaveProperty(SECRET_ID);
+  });
+
+  it("v1은 평문 저장이었으므로 migrate하면서 버림 (예전 key 포함)", () => {
+    const r = restorePersistedState(
+      JSON.stringify({
+        os: "ubuntu",
+        selectedIds: ["dev.github_ssh"],
+        vars: { ssh_email: "a@b.co", [SECRET_KEY]: SECRET },
+      })
+    );
+    expect(r.state.vars).toEqual({ "dev.github_ssh.ssh_email": "a@b.co" });
+  });
+});
+
+describe("restorePersistedState", () => {
+  it("v1 (version 필드 없음) → v2 → v3: 입력값 key를 모듈별로", () => {
+    const r = restorePersistedState(
+      JSON.stringify({
+        os: "ubuntu",
+        selectedIds: ["dev.git_config", "old.removed"],
+        vars: { git_name: "A", git_email: "a@b.co" },
+      })
+    );
+    expect(r.state).toEqual({
+      os: "ubuntu",
+      selectedIds: ["dev.git_config"],
+      vars: {
+        "dev.git_config.git_name": "A",
+        "dev.git_config.git_email": "a@b.co",
+      },
+      policies: {},
+    });
+    expect(r.persistSensitive).toBe(false);
+    expect(r.notices).toEqual([
+      "저장된 모듈 중 더 이상 제공되지 않는 모듈을 제외했습니다: old.removed",
+    ]);
+  });
+
+  it("v2 → v3: 같은 key를 쓰던 모듈이면 모두에 옮김", () => {
+    const r = restorePersistedState(
+      JSON.stringify({
+        version: 2,
+        os: "mac",
+        selectedIds: ["dev.github_ssh"],
+        vars: { ssh_email: "a@b.co" },
+        policies: { "dev.github_ssh": "overwrite" },
+        persistSensitive: false,
+      })
+    );
+    expect(r.state.vars).toEqual({ "dev.github_ssh.ssh_email": "a@b.co" });
+    expect(r.state.policies).toEqual({ "dev.github_ssh": "overwrite" });
+  });
+
+  it("저장 → 복원이 그대로", () => {
+    const state = {
+      os: "fedora" as const,
+      selectedIds: ["cli.jq"],
+      vars: { "lang.nvm.nvm_version": "v0.39.7" },
+      policies: {},
+    };
+    const json = serializePersistedState(state, false);
+    expect(JSON.parse(json).version).toBe(CURRENT_VERSION);
+    expect(restorePersistedState(json).state).toEqual(state);
+  });
+
+  it.each([0, 1.5, "1", null])("알 수 없는 version(%j)은 초기화", (version) => {
+    const r = restorePersistedState(
+      JSON.stringify({ version, os: "ubuntu", selectedIds: ["cli.jq"] })
+    );
+    expect(r.state.selectedIds).toEqual([]);
+    expect(r.notices).toEqual([
+      `저장된 설정의 버전(${JSON.stringify(version)})을 알 수 없어 초기화했습니다.`,
+    ]);
+  });
+
+  it("더 새로운 version은 불러오지 않음", () => {
+    const r = restorePersistedState(
+      JSON.stringify({ version: CURRENT_VERSION + 1, os: "ubuntu" })
+    );
+    expect(r.state.selectedIds).toEqual([]);
+    expect(r.notices).toHaveLength(1);
+  });
+});
@@ -0,0 +1,155 @@
+// src/core/persistedState.ts
+import { MODULES } from "../registry/modules";
+import {
+  isOS,
+  namespaceVars,
+  parsePolicies,
+  parseVars,
+  type PipelineState,
+  stripSensitiveVars,
+} from "./pipelineState";
+
+export const STORAGE_KEY = "ailab_install_builder_state";
+/** v1은 key 이름에 버전이 붙어 있었고 JSON 안에는 version 필드가 없음 */
+export const LEGACY_STORAGE_KEY = "ailab_install_builder_state_v1";
+
+export const CURRENT_VERSION = 3;
+
+/** v3: 입력값 key가 모듈별 ("<module id>.<key>") */
+export type PersistedV3 = {
+  version: 3;
+  os: PipelineState["os"];
+  selectedIds: string[];
+  vars: Record<string, string>;
+  policies: PipelineState["policies"];
+  persistSensitive: boolean;
+};
+
+type Migration = (prev: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * MIGRATIONS[n]: vn → v(n+1)
+ * - 스키마 바꿀 때 CURRENT_VERSION 올리고 여기 한 칸 추가
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 { os, selectedIds, vars, policies? } → v2
+  // v1은 sensitive 값을 평문 저장했으므로 opt-in 꺼진 상태로 옮기면서 버림
+  1: (v1) => ({
+    version: 2,
+    os: v1.os,
+    selectedIds: v1.selectedIds,
+    vars: stripSensitiveVars(parseVars(v1.vars)),
+    policies: v1.policies ?? {},
+    persistSensitive: false,
+  }),
+  // v2 vars { git_email } → v3 { "dev.git_config.git_email" } (같은 key를 쓰던 모듈 모두)
+  2: (v2) => ({
+    ...v2,
+    version: 3,
+    vars: namespaceVars(parseVars(v2.vars)),
+  }),
+};
+
+export type RestoredState = {
+  state: PipelineState;
+  persistSensitive: boolean;
+  notices: string[]; // 사용자에게 보여줄 안내 (삭제된 모듈 등)
+};
+
+const EMPTY: PipelineState = {
+  os: "mac",
+  selectedIds: [],
+  vars: {},
+  policies: {},
+};
+
+/** 저장된 JSON → 최신 스키마로 migrate + 레지스트리 기준 검증 */
+export function restorePersistedState(json: string | null): RestoredState {
+  if (!json) return { state: EMPTY, persistSensitive: false, notices: [] };
+
+  let data: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== "object") throw new Error("not object");
+    data = parsed;
+  } catch {
+    return {
+      state: EMPTY,
+      persistSensitive: false,
+      notices: ["저장된 설정을 읽을 수 없어 초기화했습니다."],
+    };
+  }
+
+  // v1은 version 필드가 없음, 0 / 1.5 / "1" 등은 MIGRATIONS에 없으므로 초기화
+  const saved = "version" in data ? data.version : 1;
+  if (typeof saved !== "number" || !Number.isInteger(saved) || saved < 1) {
+    return {
+      state: EMPTY,
+      persistSensitive: false,
+      notices: [
+        `저장된 설정의 버전(${JSON.stringify(saved)})을 알 수 없어 초기화했습니다.`,
+      ],
+    };
+  }
+  let version = saved;
+  if (version > CURRENT_VERSION) {
+    return {
+      state: EMPTY,
+      persistSensitive: false,
+      notices: [
+        `더 새로운 버전(v${version})에서 저장된 설정이라 불러오지 않았습니다.`,
+      ],
+    };
+  }
+  while (version < CURRENT_VERSION) {
+    data = MIGRATIONS[version](data);
+    version += 1;
+  }
+
+  const notices: string[] = [];
+  const known = new Set(MODULES.map((m) => m.id));
+  const ids = Array.isArray(data.selectedIds)
+    ? data.selectedIds.filter((x): x is string => typeof x === "string")
+    : [];
+  const removed = ids.filter((id) => !known.has(id));
+  if (removed.length > 0) {
+    notices.push(
+      `저장된 모듈 중 더 이상 제공되지 않는 모듈을 제외했습니다: ${removed.join(", ")}`
+    );
+  }
+
+  const policies = parsePolicies(data.policies);
+  for (const id of Object.keys(policies)) {
+    if (!known.has(id)) delete policies[id];
+  }
+
+  const persistSensitive = data.persistSensitive === true;
+  const vars = parseVars(data.vars);
+
+  return {
+    state: {
+      os: isOS(data.os) ? data.os : "mac",
+      selectedIds: ids.filter((id) => known.has(id)),
+      vars: persistSensitive ? vars : stripSensitiveVars(vars),
+      policies,
+    },
+    persistSensitive,
+    notices,
+  };
+}
+
+/** 현재 상태 → 저장용 JSON (sensitive 값은 opt-in일 때만) */
+export function serializePersistedState(
+  state: PipelineState,
+  persistSensitive: boolean
+): string {
+  const payload: PersistedV3 = {
+    version: CURRENT_VERSION,
+    os: state.os,
+    selectedIds: state.selectedIds,
+    vars: persistSensitive ? state.vars : stripSensitiveVars(state.vars),
+    policies: state.policies,
+    persistSensitive,
+  };
+  return JSON.stringify(payload);
+}
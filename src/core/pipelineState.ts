@@ -0,0 +1,92 @@
+// src/core/pipelineState.ts
+import { MODULES, type OverwritePolicy } from "../registry/modules";
+import { type OS, OS_LIST } from "../registry/os";
+import { inputId } from "./validateInputs";
+
+/** 빌더 한 화면 상태 (프리셋 적용 / 저장 단위) */
+export type PipelineState = {
+  os: OS;
+  selectedIds: string[];
+  vars: Record<string, string>; // "<module id>.<key>" → 값
+  policies: Record<string, OverwritePolicy>;
+};
+
+export function isOS(v: unknown): v is OS {
+  return OS_LIST.includes(v as OS);
+}
+
+export function isPolicy(v: unknown): v is OverwritePolicy {
+  return v === "skip" || v === "overwrite";
+}
+
+/** 외부 JSON(localStorage/링크 등)에서 온 policies 중 유효한 것만 */
+export function parsePolicies(v: unknown): Record<string, OverwritePolicy> {
+  if (!v || typeof v !== "object") return {};
+  const out: Record<string, OverwritePolicy> = {};
+  for (const [id, p] of Object.entries(v)) {
+    if (isPolicy(p)) out[id] = p;
+  }
+  return out;
+}
+
+/** 외부 JSON에서 온 vars 중 문자열 값만 */
+export function parseVars(v: unknown): Record<string, string> {
+  if (!v || typeof v !== "object") return {};
+  const out: Record<string, string> = {};
+  for (const [k, x] of Object.entries(v)) {
+    if (typeof x === "string") out[k] = x;
+  }
+  return out;
+}
+
+/**
+ * 모듈별 입력값 이전의 key(git_email 등)를 "<module id>.<key>"로
+ * - 예전에는 같은 key를 모든 모듈이 나눠 썼으므로 그 key를 가진 모듈 전부에 넣음
+ * - 이미 "<module id>.<key>"인 값이 우선
+ */
+export function namespaceVars(
+  vars: Record<string, string>
+): Record<string, string> {
+  const ids = new Set<string>();
+  const byKey = new Map<string, string[]>();
+  for (const m of MODULES) {
+    for (const inp of m.inputs ?? []) {
+      const id = inputId(m.id, inp.key);
+      ids.add(id);
+      byKey.set(inp.key, [...(byKey.get(inp.key) ?? []), id]);
+    }
+  }
+
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(vars)) {
+    if (ids.has(k)) continue;
+    for (const id of byKey.get(k) ?? []) out[id] = v;
+  }
+  for (const [k, v] of Object.entries(vars)) {
+    if (ids.has(k)) out[k] = v;
+  }
+  return out;
+}
+
+/** 레지스트리에서 sensitive로 표시된 입력 (inputId + 예전 key) */
+export function sensitiveKeys(): Set<string> {
+  const out = new Set<string>();
+  for (const m of MODULES) {
+    for (const inp of m.inputs ?? []) {
+      if (!inp.sensitive) continue;
+      out.add(inputId(m.id, inp.key));
+      out.add(inp.key);
+    }
+  }
+  return out;
+}
+
+/** 밖으로 내보낼 때(프리셋/링크 등) sensitive 값 제거 */
+export function stripSensitiveVars(
+  vars: Record<string, string>
+): Record<string, string> {
+  const sensitive = sensitiveKeys();
+  return Object.fromEntries(
+    Object.entries(vars).filter(([k]) => !sensitive.has(k))
+  );
+}
@@ -0,0 +1,50 @@
+// src/core/presets.test.ts
+import { describe, expect, it } from "vitest";
+
+import { applyPreset, parsePreset } from "./presets";
+
+describe("parsePreset", () => {
+  it("형식이 맞으면 유효한 값만 남겨서 돌려줌", () => {
+    expect(
+      parsePreset({
+        id: "user.1",
+        name: "Mine",
+        os: "beos",
+        moduleIds: ["cli.jq"],
+        vars: { "lang.nvm.nvm_version": "v0.39.7", n: 1 },
+        policies: { "cli.jq": "overwrite", x: "nope" },
+      })
+    ).toEqual({
+      id: "user.1",
+      name: "Mine",
+      description: "",
+      os: undefined,
+      moduleIds: ["cli.jq"],
+      vars: { "lang.nvm.nvm_version": "v0.39.7" },
+      policies: { "cli.jq": "overwrite" },
+    });
+  });
+
+  it.each([
+    ["moduleIds 없음", { id: "a", name: "A" }],
+    ["moduleIds가 배열이 아님", { id: "a", name: "A", moduleIds: "cli.jq" }],
+    ["moduleIds에 문자열 아닌 값", { id: "a", name: "A", moduleIds: [1] }],
+    ["name 없음", { id: "a", moduleIds: [] }],
+    ["vars가 객체가 아님", { id: "a", name: "A", moduleIds: [], vars: "x" }],
+    ["policies가 배열", { id: "a", name: "A", moduleIds: [], policies: [] }],
+    ["null", null],
+  ])("%s → 버림", (_, v) => {
+    expect(parsePreset(v)).toBeUndefined();
+  });
+
+  it("걸러진 프리셋은 적용해도 예외 없음", () => {
+    const preset = parsePreset({ id: "a", name: "A", moduleIds: ["cli.jq"] })!;
+    const state = {
+      os: "ubuntu" as const,
+      selectedIds: [],
+      vars: {},
+      policies: {},
+    };
+    expect(applyPreset(state, preset, "merge").selectedIds).toEqual(["cli.jq"]);
+  });
+});
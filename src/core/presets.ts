@@ -0,0 +1,96 @@
+// src/core/presets.ts
+import type { PresetDef } from "../registry/presets";
+import {
+  isOS,
+  namespaceVars,
+  parsePolicies,
+  parseVars,
+  type PipelineState,
+  stripSensitiveVars,
+} from "./pipelineState";
+
+export type ApplyMode = "replace" | "merge";
+
+/**
+ * 프리셋 적용
+ * - replace: Pipeline을 프리셋 모듈로 교체 (policy도 프리셋 것만)
+ * - merge: 현재 Pipeline 뒤에 없는 모듈만 추가 (이미 정한 policy 유지)
+ * - 입력값은 두 모드 모두 "비어 있는 칸만" 프리셋 기본값으로 채움
+ */
+export function applyPreset(
+  state: PipelineState,
+  preset: PresetDef,
+  mode: ApplyMode
+): PipelineState {
+  const vars = { ...state.vars };
+  // 예전에 저장한 사용자 프리셋은 모듈별 key가 아닐 수 있음
+  for (const [k, v] of Object.entries(namespaceVars(preset.vars ?? {}))) {
+    if (!vars[k]) vars[k] = v;
+  }
+
+  if (mode === "replace") {
+    return {
+      os: preset.os ?? state.os,
+      selectedIds: [...preset.moduleIds],
+      vars,
+      policies: { ...(preset.policies ?? {}) },
+    };
+  }
+
+  return {
+    os: preset.os ?? state.os,
+    selectedIds: [
+      ...state.selectedIds,
+      ...preset.moduleIds.filter((id) => !state.selectedIds.includes(id)),
+    ],
+    vars,
+    policies: { ...(preset.policies ?? {}), ...state.policies },
+  };
+}
+
+/**
+ * 외부 JSON(localStorage 등)에서 온 사용자 프리셋 하나
+ * - id / name / moduleIds(문자열 배열)가 없거나 vars / policies가 객체가 아니면 버림
+ */
+export function parsePreset(v: unknown): PresetDef | undefined {
+  if (!v || typeof v !== "object") return undefined;
+  const p = v as Record<string, unknown>;
+  const isObject = (x: unknown) =>
+    x === undefined || (!!x && typeof x === "object" && !Array.isArray(x));
+  if (
+    typeof p.id !== "string" ||
+    typeof p.name !== "string" ||
+    !Array.isArray(p.moduleIds) ||
+    p.moduleIds.some((id) => typeof id !== "string") ||
+    !isObject(p.vars) ||
+    !isObject(p.policies)
+  ) {
+    return undefined;
+  }
+  return {
+    id: p.id,
+    name: p.name,
+    description: typeof p.description === "string" ? p.description : "",
+    os: isOS(p.os) ? p.os : undefined,
+    moduleIds: p.moduleIds as string[],
+    vars: parseVars(p.vars),
+    policies: parsePolicies(p.policies),
+  };
+}
+
+/** 현재 Pipeline을 사용자 프리셋으로 (sensitive 입력값은 저장하지 않음) */
+export function presetFromState(
+  state: PipelineState,
+  name: string,
+  id: string
+): PresetDef {
+  return {
+    id,
+    name,
+    description: `${state.selectedIds.length}개 모듈 (사용자 저장)`,
+    os: state.os,
+    moduleIds: [...state.selectedIds],
+    vars: stripSensitiveVars(state.vars),
+    policies: { ...state.policies },
+  };
+}
@@ -0,0 +1,77 @@
+// src/core/resolveDeps.test.ts
+import { describe, expect, it } from "vitest";
+
+import type { ModuleDef } from "../registry/modules";
+import { resolveWithDeps, stableTopoSort } from "./resolveDeps";
+
+function byId(defs: [string, ModuleDef["requires"]?][]) {
+  return new Map(
+    defs.map(([id, requires]): [string, ModuleDef] => [
+      id,
+      {
+        id,
+        name: id,
+        category: ["convenience"],
+        tags: [],
+        shortDesc: "",
+        requires,
+        script: { mac: "true", linux: "true" },
+      },
+    ])
+  );
+}
+
+describe("resolveWithDeps", () => {
+  it("의존성이 먼저 오도록 포함", () => {
+    const map = byId([["a", ["b"]], ["b", ["c"]], ["c"]]);
+    expect(resolveWithDeps(["a"], "mac", map)).toEqual({
+      ids: ["c", "b", "a"],
+      diagnostics: [],
+    });
+  });
+
+  it("순환은 경로와 함께 error", () => {
+    const map = byId([
+      ["a", ["b"]],
+      ["b", ["a"]],
+    ]);
+    const { diagnostics } = resolveWithDeps(["a"], "ubuntu", map);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        kind: "cycle",
+        severity: "error",
+        path: ["a", "b", "a"],
+      }),
+    ]);
+  });
+
+  it("선택 목록의 없는 id는 warning, requires 오타는 error", () => {
+    const map = byId([["a", ["typo"]]]);
+    const { diagnostics } = resolveWithDeps(["gone", "a"], "mac", map);
+    expect(diagnostics.map((d) => [d.moduleId, d.severity])).toEqual([
+      ["gone", "warning"],
+      ["a", "error"],
+    ]);
+  });
+
+  it("OS별 requires", () => {
+    const map = byId([["a", { mac: ["m"], debian: ["d"] }], ["m"], ["d"]]);
+    expect(resolveWithDeps(["a"], "mac", map).ids).toEqual(["m", "a"]);
+    expect(resolveWithDeps(["a"], "wsl", map).ids).toEqual(["d", "a"]);
+    expect(resolveWithDeps(["a"], "arch", map).ids).toEqual(["a"]);
+  });
+});
+
+describe("stableTopoSort", () => {
+  it("requires가 허락하는 한 사용자 순서 유지", () => {
+    const map = byId([["x"], ["y", ["base"]], ["z", ["base"]], ["base"]]);
+    const selected = ["z", "x", "y"];
+    const { ids } = resolveWithDeps(selected, "mac", map);
+    expect(stableTopoSort(ids, selected, "mac", map)).toEqual([
+      "base",
+      "z",
+      "x",
+      "y",
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+// src/core/resolveDeps.ts
+import type { ModuleDef } from "../registry/modules";
+import { type OS, OS_INFO, pickForOS } from "../registry/os";
+import type { Diagnostic } from "./diagnostics";
+import { scriptFor } from "./osSupport";
+
+export function requiresFor(mod: ModuleDef, os: OS): string[] {
+  const r = mod.requires;
+  if (!r) return [];
+  return Array.isArray(r) ? r : (pickForOS(r, os) ?? []);
+}
+
+export function isSupportedOn(mod: ModuleDef, os: OS): boolean {
+  return Boolean(scriptFor(mod, os));
+}
+
+/**
+ * 선택한 모듈 + requires(필수 의존성) 재귀 포함 (OS별 requires 기준)
+ * - 의존성이 먼저 오도록 DFS post-order로 push
+ * - cycle / 없는 id / 해당 OS 미지원은 조용히 버리지 않고 diagnostics로 보고
+ */
+export function resolveWithDeps(
+  ids: string[],
+  os: OS,
+  byId: Map<string, ModuleDef>
+): { ids: string[]; diagnostics: Diagnostic[] } {
+  const done = new Set<string>();
+  const out: string[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const reported = new Set<string>(); // 같은 진단 중복 방지
+
+  const report = (key: string, d: Diagnostic) => {
+    if (reported.has(key)) return;
+    reported.add(key);
+    diagnostics.push(d);
+  };
+
+  // stack: 현재 DFS 경로 (cycle 검출용)
+  const dfs = (id: string, stack: string[]) => {
+    if (done.has(id)) return;
+
+    const loopAt = stack.indexOf(id);
+    if (loopAt >= 0) {
+      const path = [...stack.slice(loopAt), id];
+      report(`cycle:${[...path].sort().join(",")}`, {
+        kind: "cycle",
+        severity: "error",
+        moduleId: id,
+        message: `requires 순환: ${path.join(" → ")}`,
+        path,
+      });
+      return;
+    }
+
+    const parent = stack[stack.length - 1];
+    const mod = byId.get(id);
+    if (!mod) {
+      report(`unknown:${id}:${parent ?? ""}`, {
+        kind: "unknown_id",
+        // 선택 목록의 오래된 id는 경고, requires 오타는 에러
+        severity: parent ? "error" : "warning",
+        moduleId: parent ?? id,
+        message: parent
+          ? `${parent}의 requires에 없는 모듈 id "${id}"`
+          : `알 수 없는 모듈 id "${id}" (무시됨)`,
+        path: [...stack, id],
+      });
+      return;
+    }
+
+    // 미지원 모듈은 어차피 건너뛰므로 의존성도 끌어오지 않음
+    if (isSupportedOn(mod, os)) {
+      const nextStack = [...stack, id];
+      for (const dep of requiresFor(mod, os)) dfs(dep, nextStack);
+    }
+
+    done.add(id);
+    out.push(id);
+  };
+
+  for (const id of ids) dfs(id, []);
+
+  // 해당 OS 미지원: 직접 선택한 건 건너뛰면 되지만(경고),
+  // 다른 모듈이 requires로 필요로 하면 스크립트가 깨짐(에러)
+  for (const id of out) {
+    const mod = byId.get(id);
+    if (!mod) continue;
+
+    if (isSupportedOn(mod, os)) {
+      for (const dep of requiresFor(mod, os)) {
+        const depMod = byId.get(dep);
+        if (!depMod || isSupportedOn(depMod, os)) continue;
+        report(`unsupported:${dep}:${id}`, {
+          kind: "unsupported_os",
+          severity: "error",
+          moduleId: dep,
+          message: `${mod.name}이(가) 필요로 하는 ${depMod.name}은(는) ${OS_INFO[os].label}에서 지원되지 않음`,
+          path: [id, dep],
+        });
+      }
+    }
+
+    if (ids.includes(id) && !isSupportedOn(mod, os)) {
+      const reason = pickForOS(mod.notSupportedReason, os);
+      report(`unsupported:${id}`, {
+        kind: "unsupported_os",
+        severity: "warning",
+        moduleId: id,
+        message:
+          `${mod.name}은(는) ${OS_INFO[os].label}에서 지원되지 않음 (건너뜀)` +
+          (reason ? ` - ${reason}` : ""),
+      });
+    }
+  }
+
+  return { ids: out, diagnostics };
+}
+
+/** id가 (전이적으로) requires 하는 모듈 집합 */
+export function transitiveRequires(
+  id: string,
+  os: OS,
+  byId: Map<string, ModuleDef>
+): Set<string> {
+  const seen = new Set<string>();
+  const walk = (x: string) => {
+    const mod = byId.get(x);
+    if (!mod) return;
+    for (const dep of requiresFor(mod, os)) {
+      if (seen.has(dep)) continue;
+      seen.add(dep);
+      walk(dep);
+    }
+  };
+  walk(id);
+  return seen;
+}
+
+/**
+ * 안정 topo sort (Kahn + 사용자 순서 우선순위)
+ * - 선택 모듈: Pipeline에서의 index가 우선순위
+ * - 자동 포함된 의존성: 자신을 필요로 하는 선택 모듈 중 가장 앞선 우선순위를 물려받음
+ * - requires 제약이 허락하는 한 사용자가 정한 순서를 그대로 유지
+ */
+export function stableTopoSort(
+  ids: string[],
+  selectedIds: string[],
+  os: OS,
+  byId: Map<string, ModuleDef>
+): string[] {
+  const included = new Set(ids);
+  const rank = new Map<string, number>();
+  selectedIds.forEach((sel, i) => {
+    if (!included.has(sel)) return;
+    for (const x of [sel, ...transitiveRequires(sel, os, byId)]) {
+      if (!rank.has(x)) rank.set(x, i);
+    }
+  });
+
+  const indegree = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+  for (const id of ids) {
+    const deps = requiresFor(byId.get(id)!, os).filter((d) => included.has(d));
+    indegree.set(id, deps.length);
+    for (const d of deps) dependents.set(d, [...(dependents.get(d) ?? []), id]);
+  }
+
+  // 동순위면 resolveWithDeps(DFS) 순서로
+  const key = (id: string) => [rank.get(id) ?? Infinity, ids.indexOf(id)];
+  const before = (a: string, b: string) => {
+    const [ra, ia] = key(a);
+    const [rb, ib] = key(b);
+    return ra !== rb ? ra < rb : ia < ib;
+  };
+
+  const ready = ids.filter((id) => indegree.get(id) === 0);
+  const out: string[] = [];
+  while (ready.length > 0) {
+    let best = 0;
+    for (let i = 1; i < ready.length; i++) {
+      if (before(ready[i], ready[best])) best = i;
+    }
+    const [id] = ready.splice(best, 1);
+    out.push(id);
+    for (const next of dependents.get(id) ?? []) {
+      const n = (indegree.get(next) ?? 0) - 1;
+      indegree.set(next, n);
+      if (n === 0) ready.push(next);
+    }
+  }
+
+  // cycle로 남은 것들은 원래 순서대로 (어차피 error 진단으로 막힘)
+  for (const id of ids) if (!out.includes(id)) out.push(id);
+  return out;
+}
+
+export type OrderViolation = {
+  moduleId: string; // 앞에 놓였지만
+  requiredId: string; // 이걸 먼저 설치해야 하는 모듈
+};
+
+/** 선택 순서에서 requires 제약을 어긴 쌍 (A가 B를 필요로 하는데 A가 앞) */
+export function findOrderViolations(
+  selectedIds: string[],
+  os: OS,
+  byId: Map<string, ModuleDef>
+): OrderViolation[] {
+  const out: OrderViolation[] = [];
+  selectedIds.forEach((id, i) => {
+    const deps = transitiveRequires(id, os, byId);
+    for (const later of selectedIds.slice(i + 1)) {
+      if (deps.has(later)) out.push({ moduleId: id, requiredId: later });
+    }
+  });
+  return out;
+}
+
+/**
+ * 선택 목록 자체를 requires 제약에 맞게 정렬
+ * - Pipeline UI가 실제 실행 순서와 같게 보이도록
+ * - 순서가 바뀌었다면 violations에 이유가 담김
+ */
+export function normalizeOrder(
+  selectedIds: string[],
+  os: OS,
+  byId: Map<string, ModuleDef>
+): { ids: string[]; violations: OrderViolation[] } {
+  const violations = findOrderViolations(selectedIds, os, byId);
+  if (violations.length === 0) return { ids: selectedIds, violations };
+
+  const { ids: closure } = resolveWithDeps(selectedIds, os, byId);
+  const selected = new Set(selectedIds);
+  const sorted = stableTopoSort(closure, selectedIds, os, byId).filter((id) =>
+    selected.has(id)
+  );
+  // 레지스트리에 없는 id는 closure에 없으므로 뒤에 그대로 붙임
+  const rest = selectedIds.filter((id) => !sorted.includes(id));
+  return { ids: [...sorted, ...rest], violations };
+}
@@ -0,0 +1,133 @@
+// src/core/runReport.ts
+/**
+ * 생성 스크립트가 남기는 실행 리포트 (~/.ai-lab/logs/install-*.json)
+ * - 포맷은 scriptRuntime.ts의 ailab_write_report 와 맞춰야 함
+ * - 붙여넣은/드롭한 JSON을 검증해서 UI에 보여줄 때 사용
+ */
+export const RUN_REPORT_SCHEMA = "ailab-run-report/v1";
+
+export type RunStatus =
+  | "ok"
+  | "skipped"
+  | "resumed"
+  | "failed"
+  | "blocked"
+  | "unsupported"
+  | "not_run";
+
+const RUN_STATUSES: readonly string[] = [
+  "ok",
+  "skipped",
+  "resumed",
+  "failed",
+  "blocked",
+  "unsupported",
+  "not_run",
+];
+
+export type RunModuleResult = {
+  id: string;
+  name: string;
+  status: RunStatus;
+  durationSec: number;
+  error?: string; // ERR trap이 남긴 첫 줄
+};
+
+export type RunReport = {
+  os: string;
+  host?: string;
+  detectedOs?: string; // 실행 시 감지된 OS (os와 다르면 --force로 실행한 것)
+  distro?: string; // "ubuntu 24.04" 등
+  arch?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  onError?: string;
+  exitCode: number;
+  logFile?: string;
+  includedIds: string[];
+  modules: RunModuleResult[];
+  versions: Record<string, string>; // 모듈 id → 감지된 버전 한 줄
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function optString(v: unknown): string | undefined {
+  return typeof v === "string" && v !== "" ? v : undefined;
+}
+
+function parseModule(raw: unknown, i: number): RunModuleResult {
+  if (!isRecord(raw) || typeof raw.id !== "string") {
+    throw new Error(`modules[${i}]에 id가 없습니다.`);
+  }
+  const status = String(raw.status);
+  if (!RUN_STATUSES.includes(status)) {
+    throw new Error(
+      `modules[${i}] (${raw.id})의 status "${status}"를 알 수 없습니다.`
+    );
+  }
+  return {
+    id: raw.id,
+    name: typeof raw.name === "string" ? raw.name : raw.id,
+    status: status as RunStatus,
+    durationSec: Number(raw.durationSec) || 0,
+    error: optString(raw.error),
+  };
+}
+
+/** 리포트 JSON 문자열 → RunReport (형식이 틀리면 throw) */
+export function parseRunReport(text: string): RunReport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("JSON 형식이 아닙니다.");
+  }
+  if (!isRecord(raw) || raw.schema !== RUN_REPORT_SCHEMA) {
+    throw new Error(`실행 리포트가 아닙니다. (schema: ${RUN_REPORT_SCHEMA})`);
+  }
+  if (!Array.isArray(raw.modules)) {
+    throw new Error("modules 목록이 없습니다.");
+  }
+
+  const versions: Record<string, string> = {};
+  if (isRecord(raw.versions)) {
+    for (const [k, v] of Object.entries(raw.versions)) {
+      if (typeof v === "string") versions[k] = v;
+    }
+  }
+
+  return {
+    os: String(raw.os ?? ""),
+    host: optString(raw.host),
+    detectedOs: optString(raw.detectedOs),
+    distro: optString(String(raw.distro ?? "").trim()),
+    arch: optString(raw.arch),
+    startedAt: optString(raw.startedAt),
+    finishedAt: optString(raw.finishedAt),
+    onError: optString(raw.onError),
+    exitCode: Number(raw.exitCode) || 0,
+    logFile: optString(raw.logFile),
+    includedIds: Array.isArray(raw.includedIds)
+      ? raw.includedIds.filter((x): x is string => typeof x === "string")
+      : [],
+    modules: raw.modules.map(parseModule),
+    versions,
+  };
+}
+
+/** status별 개수 (요약 표시용) */
+export function countByStatus(report: RunReport): Record<RunStatus, number> {
+  const out: Record<RunStatus, number> = {
+    ok: 0,
+    skipped: 0,
+    resumed: 0,
+    failed: 0,
+    blocked: 0,
+    unsupported: 0,
+    not_run: 0,
+  };
+  for (const m of report.modules) out[m.status] += 1;
+  return out;
+}
@@ -0,0 +1,1210 @@
+// src/core/scriptRuntime.ts
+import type { OS, PackageManager } from "../registry/os";
+
+/**
+ * 생성 스크립트의 공통 런타임(bash) 조각
+ * - generateScript가 모듈 블록 앞뒤에 끼워 넣음
+ * - 여기 bash는 macOS 기본 bash 3.2에서도 돌아야 함 (연관 배열 X,
+ *   set -u에서 빈 배열 "${a[@]}" 확장 X)
+ */
+
+export type OnErrorMode = "stop" | "continue";
+
+/**
+ * 패키지 매니저 추상화: 모듈 스크립트는 ailab_pkg_install / ailab_pkg_remove 만 씀
+ * - 어떤 매니저인지는 생성 시점의 OS로 고정 (OS_INFO.pkg)
+ */
+function renderPkgHelpers(pkg: PackageManager, mirror = false): string {
+  const install: Record<PackageManager, string> = {
+    brew: `brew install "$@"`,
+    apt: `sudo apt-get install -y "$@"`,
+    dnf: `sudo dnf install -y "$@"`,
+    pacman: `sudo pacman -S --needed --noconfirm "$@"`,
+  };
+  const remove: Record<PackageManager, string> = {
+    brew: `brew uninstall "$@"`,
+    apt: `sudo apt-get remove -y "$@"`,
+    dnf: `sudo dnf remove -y "$@"`,
+    pacman: `sudo pacman -R --noconfirm "$@"`,
+  };
+  return `AILAB_PKG="${pkg}"
+
+ailab_pkg_install() {
+  ${install[pkg]}
+}
+
+ailab_pkg_remove() {
+  ${remove[pkg]}
+}${mirror ? `\n\n${renderMirrorHelpers(pkg)}` : ""}`;
+}
+
+/**
+ * 오프라인 미러 (미러 모드 설치 스크립트)
+ * - 패키지는 번들의 packages/<매니저>에서만 설치 (fetch 스크립트가 저장소 형태로 만들어 둠)
+ * - ailab_mirror_prepare는 첫 단계 전에 한 번 (dry-run이면 생략)
+ */
+const MIRROR_PKG: Record<PackageManager, { prepare: string; install: string }> =
+  {
+    brew: {
+      // HOMEBREW_CACHE에 bottle과 formula API 목록이 같이 들어 있음
+      prepare: `export HOMEBREW_CACHE="$AILAB_MIRROR_DIR/packages/brew"
+  export HOMEBREW_NO_AUTO_UPDATE=1
+  export HOMEBREW_API_AUTO_UPDATE_SECS=31536000`,
+      install: `brew install "$@"`,
+    },
+    apt: {
+      prepare: `echo "deb [trusted=yes] file:$AILAB_MIRROR_DIR/packages/apt ./" > "$AILAB_TMP/mirror.list"
+  ailab_apt_mirror update`,
+      install: `ailab_apt_mirror install -y "$@"`,
+    },
+    dnf: {
+      prepare: `:`,
+      install: `sudo dnf install -y --disablerepo='*' --repofrompath="ailab-mirror,$AILAB_MIRROR_DIR/packages/dnf" --enablerepo=ailab-mirror "$@"`,
+    },
+    pacman: {
+      prepare: `cat > "$AILAB_TMP/pacman.conf" <<AILAB_PACMAN_CONF
+[options]
+Architecture = auto
+SigLevel = Required DatabaseOptional
+
+[ailab]
+Server = file://$AILAB_MIRROR_DIR/packages/pacman
+AILAB_PACMAN_CONF
+  sudo pacman -Sy --noconfirm --config "$AILAB_TMP/pacman.conf"`,
+      install: `sudo pacman -S --needed --noconfirm --config "$AILAB_TMP/pacman.conf" "$@"`,
+    },
+  };
+
+function renderMirrorHelpers(pkg: PackageManager): string {
+  return `# 오프라인 미러: --mirror-dir > 이 스크립트가 있는 디렉터리
+if [ -z "$AILAB_MIRROR_DIR" ]; then
+  AILAB_MIRROR_DIR="$(dirname "$0")"
+fi
+if [ ! -d "$AILAB_MIRROR_DIR" ]; then
+  echo "[ABORT] Mirror directory not found: $AILAB_MIRROR_DIR" >&2
+  exit 3
+fi
+AILAB_MIRROR_DIR="$(cd "$AILAB_MIRROR_DIR" && pwd)"
+echo "Mirror: $AILAB_MIRROR_DIR"
+
+# 미러 저장소만 보는 apt (시스템 sources.list는 무시)
+ailab_apt_mirror() {
+  sudo apt-get -o Dir::Etc::SourceList="$AILAB_TMP/mirror.list" \\
+    -o Dir::Etc::SourceParts=/dev/null -o APT::Get::List-Cleanup=0 "$@"
+}
+
+ailab_mirror_prepare() {
+  [ "$AILAB_DRY_RUN" = "1" ] && return 0
+  # 받은 패키지가 없는 번들 (파일만 있는 모듈)
+  [ -d "$AILAB_MIRROR_DIR/packages/${pkg}" ] || return 0
+  echo "[MIRROR] Using packages from $AILAB_MIRROR_DIR/packages/${pkg}"
+  ${MIRROR_PKG[pkg].prepare}
+}
+
+ailab_pkg_install() {
+  ${MIRROR_PKG[pkg].install}
+}`;
+}
+
+/**
+ * 원격 설치 스크립트: 임시 파일로 받아 SHA-256 확인 후 실행 (ModuleDef.downloads)
+ * - 해시가 없거나 "-"(레지스트리가 일부러 미검증으로 둔 HEAD / latest URL)면
+ *   --allow-unverified 없이는 실행하지 않음
+ * - 불일치면 실행하지 않고 실패 (모듈 실패로 처리됨)
+ */
+const SHA256_HELPER = `ailab_sha256() {
+  if command -v sha256sum >/dev/null 2>&1; then
+    sha256sum "$1" | cut -d' ' -f1
+  else
+    shasum -a 256 "$1" | cut -d' ' -f1
+  fi
+}`;
+
+const FETCH_HELPERS = `${SHA256_HELPER}
+
+# ailab_fetch_run <url> <sha256|-|""> <interpreter> [args...]
+ailab_fetch_run() {
+  local url="$1" want="$2" file got
+  shift 2
+  file="$(mktemp "$AILAB_TMP/download.XXXXXX")"
+  echo "[FETCH] $url"
+  if ! curl -fsSL "$url" -o "$file"; then
+    echo "[ABORT] Download failed: $url" >&2
+    return 1
+  fi
+  if [ -z "$want" ] || [ "$want" = "-" ]; then
+    if [ "$AILAB_ALLOW_UNVERIFIED" != "1" ]; then
+      if [ "$want" = "-" ]; then
+        echo "[ABORT] No fixed SHA-256 upstream for $url" >&2
+      else
+        echo "[ABORT] No SHA-256 registered for $url" >&2
+      fi
+      echo "[ABORT] Re-run with --allow-unverified to run it anyway." >&2
+      return 1
+    fi
+    echo "[WARN] Running unverified download: $url"
+  else
+    got="$(ailab_sha256 "$file")"
+    if [ "$got" != "$want" ]; then
+      echo "[ABORT] SHA-256 mismatch for $url" >&2
+      echo "  expected: $want" >&2
+      echo "  actual:   $got" >&2
+      return 1
+    fi
+    echo "[OK] SHA-256 verified"
+  fi
+  local interp="$1"
+  shift
+  "$interp" "$file" "$@"
+}`;
+
+/** 스크립트 실행 옵션 파싱 (mirror: 오프라인 번들용 --mirror-dir 추가) */
+export function renderArgParser(onError: OnErrorMode, mirror = false): string {
+  const mirrorCase = mirror
+    ? `
+    --mirror-dir=*) AILAB_MIRROR_DIR="\${1#--mirror-dir=}" ;;
+    --mirror-dir)
+      if [ "$#" -lt 2 ]; then
+        echo "--mirror-dir requires a directory" >&2
+        exit 2
+      fi
+      AILAB_MIRROR_DIR="$2"
+      shift
+      ;;`
+    : "";
+  const mirrorHelp = mirror
+    ? `
+      echo "  --mirror-dir <dir>   오프라인 번들 디렉터리 (기본: 이 스크립트가 있는 곳)"`
+    : "";
+  return `AILAB_DRY_RUN=0
+AILAB_ON_ERROR="${onError}"
+AILAB_FRESH=0
+AILAB_FROM=""
+AILAB_FORCE=0
+AILAB_ALLOW_UNVERIFIED=0${mirror ? `\nAILAB_MIRROR_DIR=""` : ""}
+while [ "$#" -gt 0 ]; do
+  case "$1" in
+    --dry-run) AILAB_DRY_RUN=1 ;;
+    --continue-on-error) AILAB_ON_ERROR="continue" ;;
+    --stop-on-error) AILAB_ON_ERROR="stop" ;;
+    --fresh) AILAB_FRESH=1 ;;
+    --force) AILAB_FORCE=1 ;;
+    --allow-unverified) AILAB_ALLOW_UNVERIFIED=1 ;;
+    --from=*) AILAB_FROM="\${1#--from=}" ;;
+    --from)
+      if [ "$#" -lt 2 ]; then
+        echo "--from requires a module id" >&2
+        exit 2
+      fi
+      AILAB_FROM="$2"
+      shift
+      ;;${mirrorCase}
+    -h|--help)
+      echo "Usage: bash $0 [--dry-run] [--continue-on-error|--stop-on-error] [--fresh|--from <id>] [--force] [--allow-unverified]${mirror ? " [--mirror-dir <dir>]" : ""}"
+      echo "  --dry-run            설치 계획만 출력하고 아무것도 실행하지 않음"
+      echo "  --continue-on-error  모듈이 실패해도 나머지 계속 (의존 모듈은 blocked)"
+      echo "  --stop-on-error      첫 실패에서 중단 (기본: ${onError})"
+      echo "  --fresh              이전 실행 기록을 무시하고 처음부터 전부 실행"
+      echo "  --from <id>          해당 모듈부터 다시 실행 (앞 모듈은 완료로 간주)"
+      echo "  --force              감지된 OS가 생성 대상 OS와 달라도 실행"
+      echo "  --allow-unverified   SHA-256이 등록되지 않은 설치 스크립트도 실행"${mirrorHelp}
+      exit 0
+      ;;
+    *)
+      echo "Unknown option: $1" >&2
+      exit 2
+      ;;
+  esac
+  shift
+done`;
+}
+
+/**
+ * 실행 환경 감지 (설치/제거 스크립트 공통, 배너 바로 뒤)
+ * - 모듈에서 분기용으로 쓸 수 있는 값:
+ *   AILAB_OS_DETECTED (mac / ubuntu / debian / wsl / fedora / arch / unknown),
+ *   AILAB_DISTRO_ID, AILAB_DISTRO_VERSION, AILAB_ARCH (arm64 / amd64 / uname -m),
+ *   AILAB_BREW_PREFIX (mac: Apple Silicon /opt/homebrew, Intel /usr/local)
+ * - 생성 대상 OS와 다르면 --force 없이는 중단
+ */
+export function renderDetect(os: OS): string {
+  return `AILAB_TARGET_OS="${os}"
+
+# /etc/os-release 의 KEY 값 (따옴표 제거, 없으면 빈 값)
+ailab_os_release() {
+  [ -r /etc/os-release ] || return 0
+  sed -n "s/^$1=//p" /etc/os-release | head -n 1 | tr -d "\\"'"
+}
+
+ailab_detect() {
+  AILAB_ARCH="$(uname -m)"
+  AILAB_DISTRO_ID=""
+  AILAB_DISTRO_VERSION=""
+  AILAB_BREW_PREFIX=""
+  AILAB_OS_DETECTED="unknown"
+
+  case "$(uname -s)" in
+    Darwin)
+      AILAB_OS_DETECTED="mac"
+      AILAB_DISTRO_ID="macos"
+      AILAB_DISTRO_VERSION="$(sw_vers -productVersion 2>/dev/null || true)"
+      # Rosetta(x86_64)로 실행돼도 실제 CPU 기준
+      if [ "$(sysctl -n hw.optional.arm64 2>/dev/null || echo 0)" = "1" ]; then
+        AILAB_ARCH="arm64"
+      fi
+      ;;
+    Linux)
+      AILAB_DISTRO_ID="$(ailab_os_release ID)"
+      AILAB_DISTRO_VERSION="$(ailab_os_release VERSION_ID)"
+      local like
+      like=" $AILAB_DISTRO_ID $(ailab_os_release ID_LIKE) "
+      case "$like" in
+        *" ubuntu "*) AILAB_OS_DETECTED="ubuntu" ;;
+        *" debian "*) AILAB_OS_DETECTED="debian" ;;
+        *" fedora "*|*" rhel "*) AILAB_OS_DETECTED="fedora" ;;
+        *" arch "*) AILAB_OS_DETECTED="arch" ;;
+      esac
+      if [ "$AILAB_OS_DETECTED" = "ubuntu" ] && grep -qi microsoft /proc/version 2>/dev/null; then
+        AILAB_OS_DETECTED="wsl"
+      fi
+      ;;
+  esac
+
+  case "$AILAB_ARCH" in
+    arm64|aarch64) AILAB_ARCH="arm64" ;;
+    x86_64|amd64) AILAB_ARCH="amd64" ;;
+  esac
+
+  if [ "$AILAB_OS_DETECTED" = "mac" ]; then
+    if [ "$AILAB_ARCH" = "arm64" ]; then
+      AILAB_BREW_PREFIX="/opt/homebrew"
+    else
+      AILAB_BREW_PREFIX="/usr/local"
+    fi
+    # Apple Silicon은 /opt/homebrew/bin이 기본 PATH에 없음
+    if [ -x "$AILAB_BREW_PREFIX/bin/brew" ] && ! command -v brew >/dev/null 2>&1; then
+      eval "$("$AILAB_BREW_PREFIX/bin/brew" shellenv)"
+    fi
+  fi
+  export AILAB_OS_DETECTED AILAB_DISTRO_ID AILAB_DISTRO_VERSION AILAB_ARCH AILAB_BREW_PREFIX
+}
+
+ailab_detect
+echo "Detected: $AILAB_OS_DETECTED ($AILAB_DISTRO_ID \${AILAB_DISTRO_VERSION:-?}, $AILAB_ARCH)"
+if [ "$AILAB_OS_DETECTED" != "$AILAB_TARGET_OS" ]; then
+  if [ "$AILAB_FORCE" != "1" ]; then
+    echo "[ABORT] This script was generated for '$AILAB_TARGET_OS' but this machine looks like '$AILAB_OS_DETECTED'." >&2
+    echo "[ABORT] Generate a script for this OS, or re-run with --force if you are sure." >&2
+    exit 3
+  fi
+  echo "[FORCE] Target is '$AILAB_TARGET_OS' but running on '$AILAB_OS_DETECTED'."
+fi`;
+}
+
+/**
+ * 모든 모듈에서 쓸 수 있는 내장 {{var}}
+ * - 생성 시점 값 대신 bash 변수로 들어가서 실행 시점에 펼쳐짐 (renderDetect가 채움)
+ */
+export const BUILTIN_VARS: Record<string, { desc: string; expr: string }> = {
+  os: { desc: "생성 대상 OS (mac / ubuntu / ...)", expr: "$AILAB_TARGET_OS" },
+  arch: { desc: "실행 중인 CPU (arm64 / amd64)", expr: "$AILAB_ARCH" },
+  user_home: { desc: "실행하는 사용자의 홈 디렉터리", expr: "$HOME" },
+};
+
+/** 모듈별 결과 기록 (설치/제거 스크립트 공통) */
+const STATUS_HELPERS = `AILAB_IDS=()
+AILAB_NAMES=()
+AILAB_STATUS=()
+AILAB_DURATIONS=()
+
+# ailab_record <id> <name> <status> [duration_sec]
+ailab_record() {
+  AILAB_IDS+=("$1")
+  AILAB_NAMES+=("$2")
+  AILAB_STATUS+=("$3")
+  AILAB_DURATIONS+=("\${4:-0}")
+}
+
+# 기록된 index (없으면 -1)
+ailab_index_of() {
+  local i=0
+  while [ "$i" -lt "\${#AILAB_IDS[@]}" ]; do
+    if [ "\${AILAB_IDS[$i]}" = "$1" ]; then
+      echo "$i"
+      return 0
+    fi
+    i=$((i + 1))
+  done
+  echo "-1"
+}
+
+ailab_status_of() {
+  local i
+  i="$(ailab_index_of "$1")"
+  if [ "$i" -lt 0 ]; then
+    echo "none"
+  else
+    echo "\${AILAB_STATUS[$i]}"
+  fi
+}`;
+
+/** 결과 요약 표, 실패/blocked 개수는 AILAB_FAILED_COUNT 로 */
+const SUMMARY = `ailab_summary() {
+  local i=0 ok=0 skipped=0 failed=0 other=0
+  echo ""
+  echo "===================================="
+  echo "[SUMMARY]"
+  printf '  %-12s %s\\n' "STATUS" "MODULE"
+  while [ "$i" -lt "\${#AILAB_IDS[@]}" ]; do
+    printf '  %-12s %s (%s)\\n' "\${AILAB_STATUS[$i]}" "\${AILAB_NAMES[$i]}" "\${AILAB_IDS[$i]}"
+    case "\${AILAB_STATUS[$i]}" in
+      ok|removed) ok=$((ok + 1)) ;;
+      skipped|resumed) skipped=$((skipped + 1)) ;;
+      failed|blocked) failed=$((failed + 1)) ;;
+      *) other=$((other + 1)) ;;
+    esac
+    i=$((i + 1))
+  done
+  echo "------------------------------------"
+  echo "  succeeded: $ok, skipped: $skipped, failed/blocked: $failed, other: $other"
+  echo "===================================="
+  AILAB_FAILED_COUNT=$failed
+}`;
+
+/** 생성 시점 정보 (실행 리포트 / 체크포인트용) */
+export type RunInfo = {
+  os: string;
+  pkg: PackageManager;
+  fingerprint: string; // pipeline 식별값: 다르면 이전 체크포인트를 쓰지 않음
+  modules: { id: string; name: string }[]; // includedIds 순서 (name은 escape 완료)
+  versions: { id: string; cmd: string }[]; // 모듈별 versionCmd
+  pins: { name: string; version: string; cmd: string }[]; // 버전 고정 (latest 제외)
+  mirror?: boolean; // 오프라인 번들: 패키지 / 파일을 미러 디렉터리에서
+};
+
+/** bash single-quote 문자열 */
+function singleQuote(v: string): string {
+  return `'${v.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * shell rc 파일 편집 (설치/제거 스크립트 공통)
+ * - 모듈의 shellRc 줄을 "# >>> ai-lab:<id> >>>" 블록으로 감싸서 씀
+ * - 재실행하면 블록을 통째로 교체 (append 누적 X)
+ * - rc 파일은 실제 login shell 기준 (zsh / bash)
+ */
+const RC_HELPERS = `ailab_login_shell() {
+  local sh=""
+  if [ "$(uname -s)" = "Darwin" ]; then
+    sh="$(dscl . -read "/Users/$(id -un)" UserShell 2>/dev/null | awk '{print $2}')" || sh=""
+  elif command -v getent >/dev/null 2>&1; then
+    sh="$(getent passwd "$(id -un)" | cut -d: -f7)" || sh=""
+  fi
+  [ -n "$sh" ] || sh="\${SHELL:-/bin/sh}"
+  basename "$sh"
+}
+
+ailab_rc_file() {
+  case "$1" in
+    zsh) echo "$HOME/.zshrc" ;;
+    bash)
+      # macOS 터미널은 bash를 login shell로 띄움
+      if [ "$(uname -s)" = "Darwin" ]; then
+        echo "$HOME/.bash_profile"
+      else
+        echo "$HOME/.bashrc"
+      fi
+      ;;
+    *) return 1 ;;
+  esac
+}
+
+# 블록 제거 후 (있으면) 새 블록을 같은 자리에, 없으면 끝에 추가
+# ailab_rc_write <rc> <id> <block_file|->
+ailab_rc_write() {
+  local rc="$1" begin="# >>> ai-lab:$2 >>>" end="# <<< ai-lab:$2 <<<" block="$3"
+  local tmp="$AILAB_TMP/rc.$$"
+  awk -v begin="$begin" -v end="$end" -v block="$block" '
+    $0 == begin {
+      skip = 1
+      if (block != "-" && !done) { while ((getline l < block) > 0) print l; done = 1 }
+      next
+    }
+    skip && $0 == end { skip = 0; next }
+    skip { next }
+    { print }
+    END { if (block != "-" && !done) { while ((getline l < block) > 0) print l } }
+  ' "$rc" > "$tmp"
+  # cat > 로 덮어써서 symlink(dotfiles)와 권한은 유지
+  cat "$tmp" > "$rc"
+  rm -f "$tmp"
+}
+
+# ailab_rc_block <id> <line...>  (@shell@ → 감지된 shell 이름)
+ailab_rc_block() {
+  local id="$1" shell rc line block="$AILAB_TMP/rc-block.$1"
+  shift
+  shell="$(ailab_login_shell)"
+  if ! rc="$(ailab_rc_file "$shell")"; then
+    echo "[RC] Unsupported login shell: $shell. Add these lines to your shell config by hand:"
+    for line in "$@"; do echo "  $line"; done
+    return 0
+  fi
+  {
+    echo "# >>> ai-lab:$id >>>"
+    for line in "$@"; do echo "\${line//@shell@/$shell}"; done
+    echo "# <<< ai-lab:$id <<<"
+  } > "$block"
+  touch "$rc"
+  ailab_rc_write "$rc" "$id" "$block"
+  echo "[RC] Updated $rc ($id)"
+}
+
+# ailab_rc_remove <id>: 어느 rc에 있든 블록 삭제
+ailab_rc_remove() {
+  local rc
+  for rc in "$HOME/.zshrc" "$HOME/.bashrc" "$HOME/.bash_profile"; do
+    if [ -f "$rc" ] && grep -qF "# >>> ai-lab:$1 >>>" "$rc"; then
+      ailab_rc_write "$rc" "$1" -
+      echo "[RC] Removed $1 block from $rc"
+    fi
+  done
+}`;
+
+/** 모듈 본문 뒤에 붙는 rc 블록 호출 */
+export function renderRcBlock(id: string, lines: string[]): string {
+  return `ailab_rc_block "${id}" ${lines.map(singleQuote).join(" ")}`;
+}
+
+/** 제거 본문 뒤에 붙는 rc 블록 삭제 */
+export function renderRcRemove(id: string): string {
+  return `ailab_rc_remove "${id}"`;
+}
+
+/**
+ * 모듈 실행기
+ * - 각 모듈은 subshell에서 set -Eeuo pipefail + ERR trap으로 실행
+ *   (실패한 모듈/라인/명령을 남기고, 모듈 안의 set +u 같은 변경이 새지 않게)
+ * - 다음 모듈에 넘길 환경(PATH, nvm 등)은 ailab_env 로 등록
+ * - 결과는 AILAB_IDS / AILAB_NAMES / AILAB_STATUS / AILAB_DURATIONS 배열에 기록
+ * - 완료된 모듈은 체크포인트(~/.ai-lab/state)에 남겨서 재실행 시 이어서 진행
+ */
+export function renderRuntime(info: RunInfo): string {
+  const includedIds = info.modules.map((m) => `"${m.id}"`).join(" ");
+  const includedNames = info.modules.map((m) => `"${m.name}"`).join(" ");
+  const probes = info.versions.map(
+    (v) => `  ailab_version "${v.id}" ${singleQuote(v.cmd)}`
+  );
+  const pinChecks = info.pins.length
+    ? [
+        `  echo "[VERIFY] Pinned versions"`,
+        ...info.pins.map(
+          (p) =>
+            `  ailab_check_pin "${p.name}" "${p.version}" ${singleQuote(p.cmd)}`
+        ),
+      ]
+    : [`  echo "[VERIFY] No pinned versions."`];
+
+  return `AILAB_TMP="$(mktemp -d "\${TMPDIR:-/tmp}/ailab.XXXXXX")"
+trap 'rm -rf "$AILAB_TMP"' EXIT
+AILAB_ENV_FILE="$AILAB_TMP/env.sh"
+: > "$AILAB_ENV_FILE"
+
+AILAB_PIPELINE_ID="${info.fingerprint}"
+AILAB_INCLUDED_IDS=(${includedIds})
+AILAB_INCLUDED_NAMES=(${includedNames})
+AILAB_VERSION_LINES=()
+AILAB_DONE_IDS=()
+
+# 다음 모듈에도 유지돼야 하는 환경 (예: ailab_env 'export PATH="..."')
+ailab_env() {
+  echo "$1" >> "$AILAB_ENV_FILE"
+  eval "$1"
+}
+
+ailab_load_env() {
+  set +u
+  . "$AILAB_ENV_FILE"
+  set -u
+}
+
+${STATUS_HELPERS}
+
+${RC_HELPERS}
+
+${renderPkgHelpers(info.pkg, info.mirror)}
+
+${FETCH_HELPERS}
+
+# ------------------------------------------------------------
+# 체크포인트: "pipeline <fingerprint>" + 완료된 모듈마다 "done <id>"
+# ------------------------------------------------------------
+ailab_is_done() {
+  local i=0
+  while [ "$i" -lt "\${#AILAB_DONE_IDS[@]}" ]; do
+    [ "\${AILAB_DONE_IDS[$i]}" = "$1" ] && return 0
+    i=$((i + 1))
+  done
+  return 1
+}
+
+# 이전 실행이 남긴 환경 (PATH 등): 건너뛴 모듈의 ailab_env도 이어받기 위해
+ailab_restore_env() {
+  if [ -s "$AILAB_STATE_ENV" ]; then
+    cat "$AILAB_STATE_ENV" >> "$AILAB_ENV_FILE"
+    ailab_load_env
+  fi
+}
+
+ailab_load_state() {
+  AILAB_STATE_DIR="\${AILAB_STATE_DIR:-$HOME/.ai-lab}"
+  AILAB_STATE_FILE="$AILAB_STATE_DIR/state"
+  AILAB_STATE_ENV="$AILAB_STATE_DIR/state.env"
+
+  if [ -n "$AILAB_FROM" ]; then
+    local i=0 found=0
+    while [ "$i" -lt "\${#AILAB_INCLUDED_IDS[@]}" ]; do
+      if [ "\${AILAB_INCLUDED_IDS[$i]}" = "$AILAB_FROM" ]; then
+        found=1
+        break
+      fi
+      AILAB_DONE_IDS+=("\${AILAB_INCLUDED_IDS[$i]}")
+      i=$((i + 1))
+    done
+    if [ "$found" != "1" ]; then
+      echo "Unknown module id for --from: $AILAB_FROM" >&2
+      exit 2
+    fi
+    echo "[RESUME] Starting from $AILAB_FROM (earlier modules are treated as completed)"
+    ailab_restore_env
+    return 0
+  fi
+
+  if [ "$AILAB_FRESH" = "1" ] || [ ! -f "$AILAB_STATE_FILE" ]; then
+    return 0
+  fi
+
+  local kind value pipeline=""
+  while read -r kind value; do
+    case "$kind" in
+      pipeline) pipeline="$value" ;;
+      done) AILAB_DONE_IDS+=("$value") ;;
+    esac
+  done < "$AILAB_STATE_FILE"
+
+  if [ "$pipeline" != "$AILAB_PIPELINE_ID" ]; then
+    echo "[RESUME] Saved progress is for a different pipeline. Starting from the beginning."
+    AILAB_DONE_IDS=()
+    return 0
+  fi
+  if [ "\${#AILAB_DONE_IDS[@]}" -gt 0 ]; then
+    echo "[RESUME] \${#AILAB_DONE_IDS[@]} module(s) completed in a previous run will be skipped. (--fresh to run everything)"
+    ailab_restore_env
+  fi
+}
+
+# 실제 실행 시작: 체크포인트를 현재 pipeline 기준으로 다시 씀
+ailab_save_state() {
+  mkdir -p "$AILAB_STATE_DIR"
+  local i=0
+  {
+    echo "pipeline $AILAB_PIPELINE_ID"
+    while [ "$i" -lt "\${#AILAB_DONE_IDS[@]}" ]; do
+      echo "done \${AILAB_DONE_IDS[$i]}"
+      i=$((i + 1))
+    done
+  } > "$AILAB_STATE_FILE"
+  if [ "\${#AILAB_DONE_IDS[@]}" -eq 0 ]; then
+    : > "$AILAB_STATE_ENV"
+  fi
+}
+
+ailab_mark_done() {
+  echo "done $1" >> "$AILAB_STATE_FILE"
+  cp "$AILAB_ENV_FILE" "$AILAB_STATE_ENV"
+}
+
+# 모든 모듈이 끝났으면 다음 실행은 처음부터
+ailab_clear_state() {
+  rm -f "$AILAB_STATE_FILE" "$AILAB_STATE_ENV"
+}
+
+# 실행 전 판정: 0 = 실행할 것, 1 = 이미 처리됨 (resume / blocked / skip 기록 완료)
+# ailab_should_run <id> <name> <check_fn|-> <skip|overwrite> [requires...]
+ailab_should_run() {
+  local id="$1" name="$2" check="$3" policy="$4"
+  shift 4
+
+  if ailab_is_done "$id"; then
+    echo "[RESUME] $name completed in a previous run."
+    ailab_record "$id" "$name" resumed
+    return 1
+  fi
+
+  ailab_blocked "$id" "$name" "$@" && return 1
+
+  if [ "$check" != "-" ] && "$check"; then
+    if [ "$policy" = "skip" ]; then
+      echo "[SKIP] $name already installed."
+      ailab_record "$id" "$name" skipped
+      ailab_mark_done "$id"
+      return 1
+    fi
+    echo "[OVERWRITE] $name already installed. Reinstalling..."
+  fi
+  return 0
+}
+
+# ailab_blocked <id> <name> [requires...]: 실패 / blocked된 의존성이 있으면 blocked로 기록
+ailab_blocked() {
+  local id="$1" name="$2" dep
+  shift 2
+  for dep in "$@"; do
+    case "$(ailab_status_of "$dep")" in
+      failed|blocked)
+        echo "[BLOCKED] $name (requires $dep, which did not succeed)"
+        ailab_record "$id" "$name" blocked
+        return 0
+        ;;
+    esac
+  done
+  return 1
+}
+
+# 본문을 subshell에서 실행 (set -e + ERR trap)
+# - 호출하는 쪽에서 set +e 로 감싸서 exit code를 받을 것 (|| 로 받으면 본문의 set -e가 꺼짐)
+ailab_isolated() {
+  local id="$1" name="$2" fn="$3"
+  (
+    set -Eeuo pipefail
+    trap 'ailab_rc=$?; echo "[ERROR] $name failed (exit $ailab_rc) at line $LINENO: $BASH_COMMAND" | tee "$AILAB_TMP/$id.err" >&2' ERR
+    "$fn"
+  )
+}
+
+# 실행 결과 기록 (stop 모드면 첫 실패에서 종료)
+ailab_finish_step() {
+  local id="$1" name="$2" rc="$3" elapsed="$4"
+  if [ "$rc" -ne 0 ]; then
+    [ -s "$AILAB_TMP/$id.err" ] || echo "[ERROR] $name failed (exit $rc)" | tee "$AILAB_TMP/$id.err" >&2
+    ailab_record "$id" "$name" failed "$elapsed"
+    if [ "$AILAB_ON_ERROR" = "stop" ]; then
+      echo "[STOP] Stopping at first failure. (re-run with --continue-on-error to keep going)"
+      echo "[RESUME] Re-running the script continues from this module."
+      ailab_finish 1
+    fi
+    return 0
+  fi
+
+  ailab_load_env
+  ailab_record "$id" "$name" ok "$elapsed"
+  ailab_mark_done "$id"
+}
+
+# ailab_step <id> <name> <body_fn> <check_fn|-> <skip|overwrite> [requires...]
+ailab_step() {
+  local id="$1" name="$2" fn="$3" check="$4" policy="$5"
+  shift 5
+  ailab_should_run "$id" "$name" "$check" "$policy" "$@" || return 0
+
+  local rc=0 started
+  started="$(date +%s)"
+  set +e
+  ailab_isolated "$id" "$name" "$fn"
+  rc=$?
+  set -e
+  ailab_finish_step "$id" "$name" "$rc" "$(($(date +%s) - started))"
+}
+
+# ------------------------------------------------------------
+# packages 모듈: 설치가 필요한 것만 모았다가 패키지 매니저 한 번으로 설치
+# ------------------------------------------------------------
+AILAB_Q_IDS=()
+AILAB_Q_NAMES=()
+AILAB_Q_PKGS=()
+AILAB_Q_DEPS=()
+AILAB_Q_CUR=""
+
+# ailab_pkg_queue <id> <name> <check_fn|-> <skip|overwrite> <packages> [requires...]
+ailab_pkg_queue() {
+  local id="$1" name="$2" check="$3" policy="$4" pkgs="$5"
+  shift 5
+  ailab_should_run "$id" "$name" "$check" "$policy" "$@" || return 0
+  AILAB_Q_IDS+=("$id")
+  AILAB_Q_NAMES+=("$name")
+  AILAB_Q_PKGS+=("$pkgs")
+  AILAB_Q_DEPS+=("$*")
+}
+
+# 패키지 이름은 registry 값이라 공백으로 나눠 그대로 넘김
+ailab_pkg_queued() {
+  # shellcheck disable=SC2086
+  ailab_pkg_install $AILAB_Q_CUR
+}
+
+# 한 번에 설치, 실패하면 어느 모듈 때문인지 모듈별로 다시 시도
+# - 다시 시도할 때는 같은 묶음 안의 의존성이 실패했는지 모듈마다 다시 확인
+ailab_pkg_flush() {
+  local n="\${#AILAB_Q_IDS[@]}" i=0 rc=0 started
+  [ "$n" -gt 0 ] || return 0
+
+  AILAB_Q_CUR=""
+  while [ "$i" -lt "$n" ]; do
+    AILAB_Q_CUR="$AILAB_Q_CUR \${AILAB_Q_PKGS[$i]}"
+    i=$((i + 1))
+  done
+  echo "[PKG] Installing $n module(s) in one $AILAB_PKG call:$AILAB_Q_CUR"
+  started="$(date +%s)"
+  set +e
+  ailab_isolated "pkg-batch" "Package batch" ailab_pkg_queued
+  rc=$?
+  set -e
+  local elapsed=$(($(date +%s) - started))
+
+  i=0
+  if [ "$rc" -eq 0 ]; then
+    while [ "$i" -lt "$n" ]; do
+      ailab_finish_step "\${AILAB_Q_IDS[$i]}" "\${AILAB_Q_NAMES[$i]}" 0 "$elapsed"
+      i=$((i + 1))
+    done
+  else
+    echo "[PKG] Batch install failed. Retrying one module at a time..."
+    while [ "$i" -lt "$n" ]; do
+      # shellcheck disable=SC2086
+      if ailab_blocked "\${AILAB_Q_IDS[$i]}" "\${AILAB_Q_NAMES[$i]}" \${AILAB_Q_DEPS[$i]}; then
+        i=$((i + 1))
+        continue
+      fi
+      AILAB_Q_CUR="\${AILAB_Q_PKGS[$i]}"
+      started="$(date +%s)"
+      set +e
+      ailab_isolated "\${AILAB_Q_IDS[$i]}" "\${AILAB_Q_NAMES[$i]}" ailab_pkg_queued
+      rc=$?
+      set -e
+      ailab_finish_step "\${AILAB_Q_IDS[$i]}" "\${AILAB_Q_NAMES[$i]}" "$rc" "$(($(date +%s) - started))"
+      i=$((i + 1))
+    done
+  fi
+
+  AILAB_Q_IDS=()
+  AILAB_Q_NAMES=()
+  AILAB_Q_PKGS=()
+  AILAB_Q_DEPS=()
+}
+
+${SUMMARY}
+
+# 로그: 이후 모든 출력을 화면 + 로그 파일로
+ailab_start_log() {
+  AILAB_LOG_DIR="\${AILAB_LOG_DIR:-$HOME/.ai-lab/logs}"
+  mkdir -p "$AILAB_LOG_DIR"
+  AILAB_RUN_ID="$(date +%Y%m%d-%H%M%S)"
+  AILAB_LOG_FILE="$AILAB_LOG_DIR/install-$AILAB_RUN_ID.log"
+  AILAB_REPORT_FILE="$AILAB_LOG_DIR/install-$AILAB_RUN_ID.json"
+  AILAB_STARTED_AT="$(date -u +%Y-%m-%dT%H:%M:%SZ)"
+  exec > >(tee -a "$AILAB_LOG_FILE") 2>&1
+  echo "[LOG] $AILAB_LOG_FILE"
+}
+
+# JSON 문자열 (제어문자는 공백/제거, 역슬래시/따옴표 escape)
+ailab_json_str() {
+  printf '"%s"' "$(printf '%s' "$1" | tr '\\t\\r\\n' '   ' | tr -d '\\000-\\010\\013\\014\\016-\\037' | sed -e 's/\\\\/\\\\\\\\/g' -e 's/"/\\\\"/g')"
+}
+
+# ailab_version <id> <cmd>: 설치된 버전 한 줄 (못 찾으면 생략)
+ailab_version() {
+  local v
+  v="$( (set +eu; eval "$2") 2>/dev/null | head -n 1)" || v=""
+  if [ -n "$v" ]; then
+    AILAB_VERSION_LINES+=("$(ailab_json_str "$1"): $(ailab_json_str "$v")")
+  fi
+  return 0
+}
+
+# 고정한 버전과 비교: 출력의 첫 숫자 버전이 고정값과 같거나 "고정값.*" 이면 OK
+# ailab_check_pin <name> <pinned> <cmd>
+ailab_check_pin() {
+  local got want
+  got="$( (set +eu; eval "$3") 2>/dev/null | head -n 1 | grep -oE '[0-9]+(\\.[0-9]+)*' | head -n 1)" || got=""
+  want="$(printf '%s' "$2" | grep -oE '[0-9]+(\\.[0-9]+)*' | head -n 1)" || want="$2"
+  case "$got" in
+    "$want"|"$want".*)
+      echo "  [OK]   $1: $got (pinned $2)"
+      ;;
+    *)
+      echo "  [DIFF] $1: \${got:-not found} (pinned $2)"
+      AILAB_PIN_DIFF=$((AILAB_PIN_DIFF + 1))
+      ;;
+  esac
+}
+
+# verify.summary에서 호출: 고정한 버전과 다른 모듈이 있으면 실패
+ailab_verify_pins() {
+  AILAB_PIN_DIFF=0
+${pinChecks.join("\n")}
+  if [ "$AILAB_PIN_DIFF" -gt 0 ]; then
+    echo "[VERIFY] $AILAB_PIN_DIFF module(s) differ from the pinned version."
+    return 1
+  fi
+}
+
+ailab_collect_versions() {
+  :
+${probes.join("\n")}
+}
+
+ailab_write_report() {
+  local exit_code="$1" i=0 n id name idx status duration err sep
+  ailab_collect_versions
+  {
+    echo "{"
+    echo "  \\"schema\\": \\"ailab-run-report/v1\\","
+    echo "  \\"os\\": $(ailab_json_str "$AILAB_TARGET_OS"),"
+    echo "  \\"host\\": $(ailab_json_str "$(uname -srm)"),"
+    echo "  \\"detectedOs\\": $(ailab_json_str "$AILAB_OS_DETECTED"),"
+    echo "  \\"distro\\": $(ailab_json_str "$AILAB_DISTRO_ID $AILAB_DISTRO_VERSION"),"
+    echo "  \\"arch\\": $(ailab_json_str "$AILAB_ARCH"),"
+    echo "  \\"startedAt\\": $(ailab_json_str "$AILAB_STARTED_AT"),"
+    echo "  \\"finishedAt\\": $(ailab_json_str "$(date -u +%Y-%m-%dT%H:%M:%SZ)"),"
+    echo "  \\"onError\\": $(ailab_json_str "$AILAB_ON_ERROR"),"
+    echo "  \\"exitCode\\": $exit_code,"
+    echo "  \\"logFile\\": $(ailab_json_str "$AILAB_LOG_FILE"),"
+    printf '  "includedIds": ['
+    n=\${#AILAB_INCLUDED_IDS[@]}
+    while [ "$i" -lt "$n" ]; do
+      [ "$i" -gt 0 ] && printf ', '
+      ailab_json_str "\${AILAB_INCLUDED_IDS[$i]}"
+      i=$((i + 1))
+    done
+    echo "],"
+    echo "  \\"modules\\": ["
+    i=0
+    while [ "$i" -lt "$n" ]; do
+      id="\${AILAB_INCLUDED_IDS[$i]}"
+      name="\${AILAB_INCLUDED_NAMES[$i]}"
+      idx="$(ailab_index_of "$id")"
+      status="not_run"
+      duration=0
+      if [ "$idx" -ge 0 ]; then
+        status="\${AILAB_STATUS[$idx]}"
+        duration="\${AILAB_DURATIONS[$idx]}"
+      fi
+      err=""
+      if [ -s "$AILAB_TMP/$id.err" ]; then
+        err="$(head -n 1 "$AILAB_TMP/$id.err")"
+      fi
+      sep=","
+      [ "$i" -eq $((n - 1)) ] && sep=""
+      echo "    {\\"id\\": $(ailab_json_str "$id"), \\"name\\": $(ailab_json_str "$name"), \\"status\\": $(ailab_json_str "$status"), \\"durationSec\\": $duration, \\"error\\": $(ailab_json_str "$err")}$sep"
+      i=$((i + 1))
+    done
+    echo "  ],"
+    echo "  \\"versions\\": {"
+    i=0
+    n=\${#AILAB_VERSION_LINES[@]}
+    while [ "$i" -lt "$n" ]; do
+      sep=","
+      [ "$i" -eq $((n - 1)) ] && sep=""
+      echo "    \${AILAB_VERSION_LINES[$i]}$sep"
+      i=$((i + 1))
+    done
+    echo "  }"
+    echo "}"
+  } > "$AILAB_REPORT_FILE"
+  echo "[REPORT] $AILAB_REPORT_FILE"
+}
+
+# 요약 + 리포트 후 종료
+ailab_finish() {
+  ailab_summary
+  ailab_write_report "$1"
+  exit "$1"
+}`;
+}
+
+export type PlanEntry = {
+  id: string;
+  label: string; // "Git (dev.git)" (escape 완료된 값)
+  checkFn?: string; // installCheck 함수 이름 (없으면 항상 실행)
+  policy: "skip" | "overwrite";
+  supported: boolean;
+};
+
+/**
+ * --dry-run: 각 모듈의 installCheck만 평가해서 계획 출력 후 종료
+ * - install / skip / overwrite / run(항상 실행) / unsupported
+ * - 체크포인트로 건너뛸 모듈은 resume
+ */
+export function renderPlan(entries: PlanEntry[]): string {
+  const lines = entries.map((e) => {
+    if (!e.supported) return `ailab_plan unsupported "${e.label}"`;
+    const resume = `if ailab_is_done "${e.id}"; then ailab_plan resume "${e.label}"`;
+    if (!e.checkFn) return `${resume}; else ailab_plan run "${e.label}"; fi`;
+    const installed = e.policy === "overwrite" ? "overwrite" : "skip";
+    return `${resume}; elif ${e.checkFn}; then ailab_plan ${installed} "${e.label}"; else ailab_plan install "${e.label}"; fi`;
+  });
+
+  return `if [ "$AILAB_DRY_RUN" = "1" ]; then
+ailab_plan() { printf '  %-12s %s\\n' "[$1]" "$2"; }
+echo "[PLAN] 실제로는 아무것도 실행하지 않습니다."
+${lines.join("\n")}
+echo ""
+echo "[PLAN] 확인했으면 --dry-run 없이 다시 실행하세요."
+exit 0
+fi`;
+}
+
+/** 마지막: 요약 표 + 리포트, 실패가 있으면 non-zero exit */
+export function renderFooter(): string {
+  return `ailab_summary
+if [ "$AILAB_FAILED_COUNT" -gt 0 ]; then
+  echo "[FAILED] $AILAB_FAILED_COUNT module(s) failed or were blocked."
+  echo "[RESUME] Fix the problem and re-run: completed modules will be skipped."
+  ailab_write_report 1
+  exit 1
+fi
+ailab_clear_state
+echo "[DONE] Script finished."
+ailab_write_report 0`;
+}
+
+/** 제거 스크립트 실행 옵션 파싱 */
+export function renderUninstallArgParser(): string {
+  return `AILAB_DRY_RUN=0
+AILAB_YES=0
+AILAB_FORCE=0
+AILAB_ALLOW_UNVERIFIED=0
+while [ "$#" -gt 0 ]; do
+  case "$1" in
+    --dry-run) AILAB_DRY_RUN=1 ;;
+    -y|--yes) AILAB_YES=1 ;;
+    --force) AILAB_FORCE=1 ;;
+    --allow-unverified) AILAB_ALLOW_UNVERIFIED=1 ;;
+    -h|--help)
+      echo "Usage: bash $0 [--dry-run] [--yes] [--force] [--allow-unverified]"
+      echo "  --dry-run             무엇을 제거할지만 출력"
+      echo "  --yes                 확인 질문 없이 바로 제거"
+      echo "  --force               감지된 OS가 생성 대상 OS와 달라도 실행"
+      echo "  --allow-unverified    SHA-256이 등록되지 않은 제거 스크립트도 실행"
+      exit 0
+      ;;
+    *)
+      echo "Unknown option: $1" >&2
+      exit 2
+      ;;
+  esac
+  shift
+done`;
+}
+
+/**
+ * 제거 실행기
+ * - installCheck가 있으면 설치돼 있을 때만 제거
+ * - 하나가 실패해도 나머지는 계속 (요약에서 failed로 표시)
+ */
+export function renderUninstallRuntime(pkg: PackageManager): string {
+  return `AILAB_TMP="$(mktemp -d "\${TMPDIR:-/tmp}/ailab.XXXXXX")"
+trap 'rm -rf "$AILAB_TMP"' EXIT
+
+${STATUS_HELPERS}
+
+${SUMMARY}
+
+${RC_HELPERS}
+
+${renderPkgHelpers(pkg)}
+
+${FETCH_HELPERS}
+
+# ailab_remove <id> <name> <body_fn> <check_fn|->
+ailab_remove() {
+  local id="$1" name="$2" fn="$3" check="$4"
+
+  if [ "$check" != "-" ] && ! "$check"; then
+    echo "[SKIP] $name is not installed."
+    ailab_record "$id" "$name" skipped
+    return 0
+  fi
+  if [ "$AILAB_DRY_RUN" = "1" ]; then
+    printf '  %-12s %s\\n' "[remove]" "$name ($id)"
+    return 0
+  fi
+
+  local rc=0
+  set +e
+  (
+    set -Eeuo pipefail
+    trap 'ailab_rc=$?; echo "[ERROR] $name failed (exit $ailab_rc) at line $LINENO: $BASH_COMMAND" | tee "$AILAB_TMP/$id.err" >&2' ERR
+    "$fn"
+  )
+  rc=$?
+  set -e
+
+  if [ "$rc" -ne 0 ]; then
+    [ -s "$AILAB_TMP/$id.err" ] || echo "[ERROR] $name failed (exit $rc)" >&2
+    ailab_record "$id" "$name" failed
+    return 0
+  fi
+  ailab_record "$id" "$name" removed
+}
+
+# uninstall 조각이 없는 모듈
+ailab_manual() {
+  echo "[MANUAL] $2: no uninstall script, remove it by hand."
+  ailab_record "$1" "$2" manual
+}`;
+}
+
+/** 실제 제거 전 확인 (--yes / --dry-run이면 생략) */
+export function renderUninstallConfirm(count: number): string {
+  return `if [ "$AILAB_DRY_RUN" = "1" ]; then
+  echo "[PLAN] 실제로는 아무것도 제거하지 않습니다."
+elif [ "$AILAB_YES" != "1" ]; then
+  printf 'Remove ${count} module(s) listed above? [y/N] '
+  ailab_answer=""
+  read -r ailab_answer 2>/dev/null < /dev/tty || true
+  case "$ailab_answer" in
+    y|Y|yes|YES) ;;
+    *)
+      echo "Aborted."
+      exit 1
+      ;;
+  esac
+fi`;
+}
+
+/** 제거 스크립트 마지막: dry-run이면 안내, 아니면 요약 */
+export function renderUninstallFooter(): string {
+  return `if [ "$AILAB_DRY_RUN" = "1" ]; then
+  echo ""
+  echo "[PLAN] 확인했으면 --dry-run 없이 다시 실행하세요."
+  exit 0
+fi
+ailab_summary
+if [ "$AILAB_FAILED_COUNT" -gt 0 ]; then
+  echo "[FAILED] $AILAB_FAILED_COUNT module(s) could not be removed."
+  exit 1
+fi
+echo "[DONE] Uninstall finished."`;
+}
+
+/** 오프라인 번들 fetch 스크립트 실행 옵션 파싱 (연결된 PC에서 실행) */
+export function renderFetchArgParser(): string {
+  return `AILAB_BUNDLE_DIR="ai-lab-bundle"
+AILAB_FORCE=0
+while [ "$#" -gt 0 ]; do
+  case "$1" in
+    --force) AILAB_FORCE=1 ;;
+    -h|--help)
+      echo "Usage: bash $0 [bundle-dir] [--force]"
+      echo "  bundle-dir   받은 파일을 모을 디렉터리 (기본: ai-lab-bundle)"
+      echo "  --force      감지된 OS가 생성 대상 OS와 달라도 실행"
+      exit 0
+      ;;
+    -*)
+      echo "Unknown option: $1" >&2
+      exit 2
+      ;;
+    *) AILAB_BUNDLE_DIR="$1" ;;
+  esac
+  shift
+done`;
+}
+
+/** 받은 패키지를 매니저별 로컬 저장소로 (MIRROR_PKG의 install이 읽는 형태) */
+const MIRROR_FETCH: Record<
+  PackageManager,
+  { sync: string; fetch: string; index: string }
+> = {
+  brew: {
+    sync: `:`,
+    fetch: `brew fetch --deps "$@"`,
+    index: `:`,
+  },
+  apt: {
+    sync: `sudo apt-get update -y`,
+    // 대상 PC에 무엇이 깔려 있을지 모르므로 의존성까지 전부
+    fetch: `(
+    cd "$dir"
+    apt-get download $(apt-cache depends --recurse --no-recommends --no-suggests --no-conflicts --no-breaks --no-replaces --no-enhances "$@" | grep '^\\w' | sort -u)
+  )`,
+    index: `(cd "$dir" && apt-ftparchive packages . > Packages)`,
+  },
+  dnf: {
+    sync: `:`,
+    fetch: `dnf download --resolve --alldeps --destdir "$dir" "$@"`,
+    index: `createrepo_c "$dir"`,
+  },
+  pacman: {
+    // 빈 dbpath: 이 PC에 이미 깔린 패키지도 빠짐없이 받도록
+    sync: `mkdir -p "$AILAB_TMP/pacman-db"
+    sudo pacman -Sy --dbpath "$AILAB_TMP/pacman-db"`,
+    fetch: `sudo pacman -Sw --noconfirm --dbpath "$AILAB_TMP/pacman-db" --cachedir "$dir" "$@"`,
+    index: `repo-add "$dir/ailab.db.tar.gz" "$dir"/*.pkg.tar.*`,
+  },
+};
+
+/**
+ * fetch 스크립트 런타임
+ * - ailab_fetch_file: URL을 미러 안 경로로 (SHA-256이 있으면 확인, 이미 받은 파일은 건너뜀)
+ * - ailab_mirror_pkgs: 패키지 + 의존성을 $AILAB_MIRROR_DIR/packages/<매니저>로
+ * - ailab_mirror_index: 모두 받은 뒤 저장소 색인 생성
+ */
+export function renderFetchRuntime(pkg: PackageManager): string {
+  return `AILAB_TMP="$(mktemp -d "\${TMPDIR:-/tmp}/ailab.XXXXXX")"
+trap 'rm -rf "$AILAB_TMP"' EXIT
+
+mkdir -p "$AILAB_BUNDLE_DIR"
+AILAB_MIRROR_DIR="$(cd "$AILAB_BUNDLE_DIR" && pwd)"
+AILAB_PKG_SYNCED=0${pkg === "brew" ? `\nexport HOMEBREW_CACHE="$AILAB_MIRROR_DIR/packages/brew"` : ""}
+
+${SHA256_HELPER}
+
+# ailab_fetch_file <url> <dest> <sha256|"">
+ailab_fetch_file() {
+  local url="$1" dest="$2" want="$3" got
+  if [ -s "$dest" ] && { [ -z "$want" ] || [ "$(ailab_sha256 "$dest")" = "$want" ]; }; then
+    echo "[CACHED] $dest"
+    return 0
+  fi
+  mkdir -p "$(dirname "$dest")"
+  echo "[FETCH] $url"
+  if ! curl -fsSL "$url" -o "$dest.part"; then
+    echo "[ABORT] Download failed: $url" >&2
+    return 1
+  fi
+  if [ -n "$want" ]; then
+    got="$(ailab_sha256 "$dest.part")"
+    if [ "$got" != "$want" ]; then
+      rm -f "$dest.part"
+      echo "[ABORT] SHA-256 mismatch for $url" >&2
+      echo "  expected: $want" >&2
+      echo "  actual:   $got" >&2
+      return 1
+    fi
+  else
+    echo "UNVERIFIED $url" >> "$AILAB_MIRROR_DIR/manifest.txt"
+  fi
+  mv "$dest.part" "$dest"
+}
+
+# ailab_mirror_pkgs <package...>
+ailab_mirror_pkgs() {
+  local dir="$AILAB_MIRROR_DIR/packages/${pkg}"
+  mkdir -p "$dir"
+  if [ "$AILAB_PKG_SYNCED" = "0" ]; then
+    ${MIRROR_FETCH[pkg].sync}
+    AILAB_PKG_SYNCED=1
+  fi
+  echo "[PKG] Fetching $* (with dependencies)..."
+  ${MIRROR_FETCH[pkg].fetch}
+}
+
+# 패키지를 하나도 받지 않았으면 색인도 만들지 않음
+ailab_mirror_index() {
+  local dir="$AILAB_MIRROR_DIR/packages/${pkg}"
+  [ "$AILAB_PKG_SYNCED" = "1" ] || return 0
+  echo "[PKG] Indexing $dir..."
+  ${MIRROR_FETCH[pkg].index}
+}`;
+}
@@ -0,0 +1,37 @@
+// src/core/shareLink.test.ts
+import { describe, expect, it, vi } from "vitest";
+
+import { SECRET, SECRET_ID, withSensitiveInput } from "../test/sensitiveInput";
+import { decodeShareState, encodeShareState } from "./shareLink";
+
+vi.mock("../registry/modules", async (importOriginal) =>
+  withSensitiveInput(await importOriginal())
+);
+
+describe("공유 링크", () => {
+  it("인코딩 → 디코딩이 그대로, sensitive 입력값은 빠짐", async () => {
+    const encoded = await encodeShareState({
+      os: "ubuntu",
+      selectedIds: ["dev.git_config", "dev.github_ssh"],
+      vars: {
+        "dev.git_config.git_email": "a@b.co",
+        [SECRET_ID]: SECRET,
+      },
+      policies: { "dev.github_ssh": "overwrite" },
+    });
+    const { state, warnings } = await decodeShareState(encoded);
+    expect(warnings).toEqual([]);
+    expect(state).toEqual({
+      os: "ubuntu",
+      selectedIds: ["dev.git_config", "dev.github_ssh"],
+      vars: { "dev.git_config.git_email": "a@b.co" },
+      policies: { "dev.github_ssh": "overwrite" },
+    });
+  });
+
+  it("모르는 버전은 거절", async () => {
+    await expect(decodeShareState("9.abc")).rejects.toThrow(
+      "지원하지 않는 공유 링크 버전입니다. (9)"
+    );
+  });
+});
@@ -0,0 +1,128 @@
+// src/core/shareLink.ts
+import { MODULES } from "../registry/modules";
+import {
+  isOS,
+  namespaceVars,
+  parsePolicies,
+  parseVars,
+  type PipelineState,
+  stripSensitiveVars,
+} from "./pipelineState";
+
+/**
+ * 공유 링크 포맷: #p=<version>.<base64url(deflate-raw(JSON))>
+ * - version이 바뀌면 decode 쪽에 분기 추가 (옛 링크도 계속 열리게)
+ * - sensitive 입력값은 절대 링크에 넣지 않음
+ */
+export const SHARE_HASH_PARAM = "p";
+const SHARE_VERSION = 2;
+
+/** v1과 v2는 vars key만 다름 (v1: git_email, v2: dev.git_config.git_email) */
+type SharePayload = {
+  os: string;
+  ids: string[];
+  pol?: Record<string, string>;
+  vars?: Record<string, string>;
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array<ArrayBuffer> {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function pipeThrough(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+/** 현재 상태 → 링크 hash 값 (p=... 의 ... 부분) */
+export async function encodeShareState(state: PipelineState): Promise<string> {
+  const payload: SharePayload = {
+    os: state.os,
+    ids: state.selectedIds,
+    pol: state.policies,
+    vars: stripSensitiveVars(state.vars),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const packed = await pipeThrough(json, new CompressionStream("deflate-raw"));
+  return `${SHARE_VERSION}.${toBase64Url(packed)}`;
+}
+
+/**
+ * 링크 hash 값 → 상태
+ * - 모르는 모듈 id는 조용히 버리지 않고 warnings로
+ * - 형식이 깨졌거나 모르는 version이면 throw
+ */
+export async function decodeShareState(
+  encoded: string
+): Promise<{ state: PipelineState; warnings: string[] }> {
+  const dot = encoded.indexOf(".");
+  const version = Number(encoded.slice(0, dot));
+  if (dot < 0 || (version !== 1 && version !== SHARE_VERSION)) {
+    throw new Error(
+      `지원하지 않는 공유 링크 버전입니다. (${encoded.slice(0, dot)})`
+    );
+  }
+
+  let raw: unknown;
+  try {
+    const bytes = await pipeThrough(
+      fromBase64Url(encoded.slice(dot + 1)),
+      new DecompressionStream("deflate-raw")
+    );
+    raw = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("공유 링크가 손상되었습니다.");
+  }
+
+  const p = (raw ?? {}) as Partial<SharePayload>;
+  const warnings: string[] = [];
+  const known = new Set(MODULES.map((m) => m.id));
+  const ids = Array.isArray(p.ids)
+    ? p.ids.filter((x): x is string => typeof x === "string")
+    : [];
+  const unknown = ids.filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    warnings.push(
+      `링크에 현재 레지스트리에 없는 모듈이 있어 제외했습니다: ${unknown.join(", ")}`
+    );
+  }
+  if (!isOS(p.os))
+    warnings.push(`알 수 없는 OS "${String(p.os)}" → macOS로 열었습니다.`);
+
+  return {
+    state: {
+      os: isOS(p.os) ? p.os : "mac",
+      selectedIds: ids.filter((id) => known.has(id)),
+      policies: parsePolicies(p.pol),
+      // 혹시 sensitive 값이 섞여 들어와도 받지 않음
+      vars: stripSensitiveVars(
+        version === 1 ? namespaceVars(parseVars(p.vars)) : parseVars(p.vars)
+      ),
+    },
+    warnings,
+  };
+}
+
+/** 현재 주소 기준 공유 URL */
+export function shareUrl(encoded: string): string {
+  const url = new URL(window.location.href);
+  url.hash = `${SHARE_HASH_PARAM}=${encoded}`;
+  return url.toString();
+}
+
+/** location.hash에서 공유 값 꺼내기 (없으면 null) */
+export function readShareHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(SHARE_HASH_PARAM);
+}
@@ -0,0 +1,40 @@
+// src/core/suggestions.ts
+import type { ModuleDef, OS } from "../registry/modules";
+import { isSupportedOn } from "./resolveDeps";
+
+export type Suggestion = {
+  id: string;
+  reason: string;
+  fromIds: string[]; // 이 모듈을 추천한 (포함된) 모듈들
+};
+
+/**
+ * 포함된 모듈들의 suggests(soft deps)를 모아 추천 목록으로
+ * - requires와 달리 절대 자동 추가하지 않음 (UI에서 Add 눌러야 추가)
+ * - 이미 포함됐거나 현재 OS 미지원/없는 id는 제외
+ */
+export function collectSuggestions(
+  includedIds: string[],
+  os: OS,
+  byId: Map<string, ModuleDef>
+): Suggestion[] {
+  const included = new Set(includedIds);
+  const out = new Map<string, Suggestion>();
+
+  for (const id of includedIds) {
+    const mod = byId.get(id);
+    if (!mod || !isSupportedOn(mod, os)) continue;
+
+    for (const s of mod.suggests ?? []) {
+      if (included.has(s.id)) continue;
+      const target = byId.get(s.id);
+      if (!target || !isSupportedOn(target, os)) continue;
+
+      const prev = out.get(s.id);
+      if (prev) prev.fromIds.push(id);
+      else out.set(s.id, { id: s.id, reason: s.reason, fromIds: [id] });
+    }
+  }
+
+  return [...out.values()];
+}
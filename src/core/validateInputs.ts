@@ -0,0 +1,147 @@
+// src/core/validateInputs.ts
+import type { InputDef, InputValidator, ModuleDef } from "../registry/modules";
+import type { Diagnostic } from "./diagnostics";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** 통과하면 null, 아니면 에러 문구 */
+function checkValidator(v: InputValidator, value: string): string | null {
+  switch (v.kind) {
+    case "email":
+      return EMAIL_RE.test(value)
+        ? null
+        : (v.message ?? "이메일 형식이 아닙니다.");
+    case "regex":
+      return new RegExp(v.pattern).test(value)
+        ? null
+        : (v.message ?? `형식이 맞지 않습니다. (${v.pattern})`);
+    case "enum":
+      return v.values.includes(value)
+        ? null
+        : (v.message ?? `다음 중 하나여야 합니다: ${v.values.join(", ")}`);
+    case "minLength":
+      return value.length >= v.value
+        ? null
+        : (v.message ?? `${v.value}자 이상 입력하세요.`);
+    case "maxLength":
+      return value.length <= v.value
+        ? null
+        : (v.message ?? `${v.value}자 이하로 입력하세요.`);
+  }
+}
+
+export const LATEST = "latest";
+
+/** 입력칸 하나 검증: 필수 → 버전 목록 → validators 순 (첫 에러만) */
+export function validateInput(inp: InputDef, value: string): string | null {
+  if (value === "") return inp.required ? "필수 입력값입니다." : null;
+  if (inp.pin && value !== LATEST && !inp.pin.versions.includes(value)) {
+    return `다음 중 하나여야 합니다: ${[...inp.pin.versions, LATEST].join(", ")}`;
+  }
+  for (const v of inp.validators ?? []) {
+    const err = checkValidator(v, value);
+    if (err) return err;
+  }
+  return null;
+}
+
+/** 입력값 저장 key: 모듈마다 따로 ("dev.git_config.git_email") */
+export function inputId(moduleId: string, key: string): string {
+  return `${moduleId}.${key}`;
+}
+
+/**
+ * 모듈 입력값 정리 + 검증 (vars / 결과 모두 inputId key)
+ * - 비어 있으면 sameAs 입력값 (그 모듈도 Pipeline에 있을 때) → defaultValue 순으로 채움
+ * - 필수 누락/형식 오류는 invalid_input error 진단 (스크립트 생성 중단)
+ */
+export function resolveInputs(
+  modules: ModuleDef[],
+  vars: Record<string, string>
+): { vars: Record<string, string>; diagnostics: Diagnostic[] } {
+  const out: Record<string, string> = { ...vars };
+  const diagnostics: Diagnostic[] = [];
+  const defs = new Map<string, { mod: ModuleDef; inp: InputDef }>();
+  for (const mod of modules) {
+    for (const inp of mod.inputs ?? []) {
+      defs.set(inputId(mod.id, inp.key), { mod, inp });
+    }
+  }
+
+  // sameAs가 서로를 가리켜도 멈추도록 지나온 id를 들고 감
+  const resolved = new Map<string, string>();
+  const resolve = (id: string, seen: string[]): string => {
+    const hit = resolved.get(id);
+    if (hit !== undefined) return hit;
+    const { inp } = defs.get(id)!;
+    let value = (vars[id] ?? "").trim();
+    if (!value && inp.sameAs && defs.has(inp.sameAs)) {
+      if (!seen.includes(inp.sameAs))
+        value = resolve(inp.sameAs, [...seen, id]);
+    }
+    value ||= inp.defaultValue ?? "";
+    resolved.set(id, value);
+    return value;
+  };
+
+  for (const [id, { mod, inp }] of defs) {
+    const value = resolve(id, [id]);
+    out[id] = value;
+
+    const err = validateInput(inp, value);
+    if (err) {
+      diagnostics.push({
+        kind: "invalid_input",
+        severity: "error",
+        moduleId: mod.id,
+        inputKey: id,
+        message: `${inp.label}: ${err}`,
+      });
+    }
+  }
+
+  return { vars: out, diagnostics };
+}
+
+/**
+ * 모듈 하나가 스크립트에서 보는 값 ({{key}} → 값)
+ * - 자기 입력값만 (버전 고정 입력의 "latest"는 pin.latest로) + derived
+ * - 내장 변수(BUILTIN_VARS)는 applyVars가 따로 처리
+ */
+export function moduleVars(
+  mod: ModuleDef,
+  vars: Record<string, string>
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const inp of mod.inputs ?? []) {
+    const value = vars[inputId(mod.id, inp.key)] ?? "";
+    out[inp.key] = inp.pin?.latest && value === LATEST ? inp.pin.latest : value;
+  }
+  for (const d of mod.derived ?? []) {
+    out[d.key] = d.value({ ...out });
+  }
+  return out;
+}
+
+export type PinnedVersion = {
+  moduleId: string;
+  key: string;
+  version: string; // "latest"는 포함하지 않음
+};
+
+/** latest가 아닌 버전 고정값 (verify.summary 비교용) */
+export function pinnedVersions(
+  modules: ModuleDef[],
+  vars: Record<string, string>
+): PinnedVersion[] {
+  const out: PinnedVersion[] = [];
+  for (const mod of modules) {
+    for (const inp of mod.inputs ?? []) {
+      const version = vars[inputId(mod.id, inp.key)] ?? "";
+      if (inp.pin && version && version !== LATEST) {
+        out.push({ moduleId: mod.id, key: inp.key, version });
+      }
+    }
+  }
+  return out;
+}
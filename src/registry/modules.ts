@@ -1,5 +1,7 @@
 // src/registry/modules.ts
-export type OS = "mac" | "ubuntu";
+import type { CpuArch, OSTarget, PackageManager } from "./os";
+
+export type { OS } from "./os";
 
 export type Category =
   | "os_reset"
@@ -8,21 +10,134 @@ export type Category =
   | "languages"
   | "convenience";
 
+/** 왼쪽 Modules 패널 카테고리 필터 라벨 (순서대로 표시) */
+export const CATEGORY_LABELS: Record<Category, string> = {
+  os_reset: "OS 초기화",
+  beginner: "입문",
+  dev_env: "개발 환경",
+  languages: "언어",
+  convenience: "편의 도구",
+};
+
 export type OverwritePolicy = "skip" | "overwrite";
 
+/** 입력값 검증 규칙 (message 없으면 기본 문구) */
+export type InputValidator =
+  | { kind: "email"; message?: string }
+  | { kind: "regex"; pattern: string; message?: string }
+  | { kind: "enum"; values: string[]; message?: string }
+  | { kind: "minLength"; value: number; message?: string }
+  | { kind: "maxLength"; value: number; message?: string };
+
+/**
+ * 버전 고정 입력: Inputs 패널에서 select로 고름
+ * - 값은 versions 중 하나 또는 "latest"
+ * - latest가 아니면 verify.summary가 모듈 versionCmd 출력과 비교
+ */
+export type VersionPinDef = {
+  versions: string[]; // 고를 수 있는 버전 (최신 순)
+  latest?: string; // "latest"를 고르면 스크립트에 대신 들어갈 값 (예: nvm의 "lts/*")
+};
+
 export type InputDef = {
   key: string; // e.g. "git_name"
   label: string; // UI label
   placeholder?: string;
-  required?: boolean;
+  required?: boolean; // 비어 있으면 스크립트 생성 중단
   sensitive?: boolean; // true => UI에서 마스킹(비번/키 같은 것)
-  defaultValue?: string;
+  defaultValue?: string; // 비어 있으면 이 값으로 채움
   hint?: string; // 작은 설명(1줄)
+  validators?: InputValidator[]; // 값이 있을 때만 검사
+  pin?: VersionPinDef; // 버전 고정 입력이면 허용 값 목록
+  sameAs?: string; // 비어 있으면 이 입력값을 씀 ("<module id>.<key>", 그 모듈이 Pipeline에 있을 때만)
+};
+
+/**
+ * 다른 입력값으로 계산하는 변수 (같은 모듈 안에서 {{key}})
+ * - value는 이 모듈의 입력값 (pin.latest 치환 후)과 앞에 선언한 derived를 받음
+ */
+export type DerivedVarDef = {
+  key: string;
+  desc: string; // CLI describe 등에 표시
+  value: (vars: Record<string, string>) => string;
+};
+
+/** key: OS / 계열 / "linux" (생성 시 가장 구체적인 key 우선, registry/os.ts) */
+export type ScriptByOS = Partial<Record<OSTarget, string>>;
+
+export type InstallCheckByOS = Partial<Record<OSTarget, string>>;
+
+/** soft dep: 자동 추가하지 않고 Pipeline에서 추천만 */
+export type SuggestDef = {
+  id: string;
+  reason: string; // 추천 이유(1줄)
+};
+
+/**
+ * 사용자 shell rc(~/.zshrc 등)에 넣을 줄
+ * - generator가 "# >>> ai-lab:<id> >>>" 블록으로 감싸서 재실행해도 한 번만 들어감
+ * - rc 파일은 실행 시점의 login shell로 결정
+ */
+export type ShellRcDef = {
+  lines: string[]; // @shell@ → 감지된 shell 이름 (zsh / bash)
+};
+
+/**
+ * 패키지 매니저로 설치만 하면 되는 모듈 (script 대신 선언)
+ * - generator가 설치 / installCheck / 제거를 만들고, 같은 단계의 패키지는 한 번에 설치
+ * - 해당 OS의 패키지 매니저 key가 없으면 미지원
+ */
+export type PackagesDef = Partial<Record<PackageManager, string | string[]>> & {
+  check: string | string[]; // command -v 로 확인할 실행 파일 (여러 개면 하나만 있어도 설치됨)
+};
+
+/**
+ * 내려받아 실행하는 설치 스크립트 (script / uninstall 안에서 {{download:name}})
+ * - generator가 임시 파일로 받아 SHA-256을 확인한 뒤 실행하도록 바꿈 (curl | sh 금지)
+ * - sha256이 없으면 미검증: 생성 스크립트는 --allow-unverified 없이는 실행하지 않음
+ * - 해시는 배포처에서 받은 파일로 직접 계산해서 넣을 것 (추측 금지)
+ * - 버전을 박을 수 있으면 버전이 박힌 URL + 해시로 (latest URL 금지)
+ * - HEAD처럼 버전 URL이 아예 없으면 unverified에 이유를 적어 일부러 미검증으로
+ *   (등록 안 된 것과 똑같이 --allow-unverified 없이는 실행하지 않음)
+ */
+export type DownloadDef = {
+  url: string; // {{var}} 가능
+  sha256?: string | Record<string, string>; // 고정 URL이면 문자열, {{var}} URL이면 치환된 URL → 해시
+  unverified?: string | Record<string, string>; // sha256과 같은 규칙, 값은 해시를 둘 수 없는 이유
 };
 
-export type ScriptByOS = Partial<Record<OS, string>>;
+/**
+ * 오프라인 번들에 넣을 파일 (연결된 PC에서 fetch 스크립트가 받아둠)
+ * - 미러 디렉터리 안 <module id>/<name> (CPU별이면 <module id>/<arch>/<name>)
+ * - 미러 모드 스크립트에서 {{artifact:name}}으로 경로 참조 (참조된 것만 받음)
+ */
+export type ArtifactDef = {
+  name: string;
+  url: string | Partial<Record<CpuArch, string>>; // {{var}} 가능, CPU마다 다르면 { arm64, amd64 }
+  sha256?: string | Record<string, string>; // DownloadDef와 같은 규칙
+  unverified?: string | Record<string, string>; // DownloadDef와 같은 규칙
+};
+
+/** 연결된 PC에서 실행할 bash (ailab_fetch_file / ailab_mirror_pkgs 사용 가능) */
+export type FetchDef = {
+  desc: string; // bundle plan에 표시
+  script: ScriptByOS;
+};
+
+/**
+ * 오프라인(미러) 모드: 인터넷이 없는 실습실용 설치
+ * - script가 없으면 원래 script를 그대로 씀 (ailab_pkg_install은 미러의 패키지 사용)
+ * - fetch가 없으면 미러 모드 본문의 ailab_pkg_install 줄에서 받을 패키지를 모음
+ */
+export type OfflineDef = {
+  artifacts?: ArtifactDef[];
+  script?: ScriptByOS; // 미러 모드 설치 스크립트 ({{mirror_dir}}, {{artifact:name}})
+  fetch?: FetchDef; // URL / 패키지 이름만으로는 안 되는 것
+  notSupportedReason?: Partial<Record<OSTarget, string>>; // 미러로 설치할 수 없는 이유
+};
 
-export type InstallCheckByOS = Partial<Record<OS, string>>;
+/** OS 공통이면 배열, OS마다 다르면 { mac: [...], debian: [...] } */
+export type DepsByOS = string[] | Partial<Record<OSTarget, string[]>>;
 
 export type ModuleDef = {
   id: string;
@@ -31,19 +146,69 @@ export type ModuleDef = {
   tags: string[]; // 검색용 키워드
   iconSlug?: string; // simpleicons slug (ex: "homebrew")
   shortDesc: string; // hover 1줄
-  requires?: string[]; // hard deps
-  suggests?: string[]; // soft deps
+  requires?: DepsByOS; // hard deps
+  suggests?: SuggestDef[]; // soft deps (추천만, 자동 추가 X)
   inputs?: InputDef[]; // UI 입력값
-  defaultPolicy?: OverwritePolicy; // 기본: skip
-  installCheck?: InstallCheckByOS; // 이미 설치되었는지 판단 (bash expr)
-  script: ScriptByOS; // 실제 설치 스크립트 조각
-  notSupportedReason?: Partial<Record<OS, string>>; // 지원 안하면 UI 표시
+  derived?: DerivedVarDef[]; // inputs로 계산하는 {{var}}
+  defaultPolicy?: OverwritePolicy; // 기본: skip (Pipeline에서 모듈별 override 가능)
+  installCheck?: InstallCheckByOS; // 이미 설치되었는지 판단 (bash expr, generator가 블록을 감쌈)
+  versionCmd?: string; // 설치된 버전 한 줄 출력 (실행 리포트 / 버전 고정 확인용, bash, {{var}} 가능)
+  script?: ScriptByOS; // 실제 설치 스크립트 조각 (packages 모듈이면 생략)
+  packages?: PackagesDef; // 선언형 패키지 설치 (script보다 우선)
+  uninstall?: ScriptByOS; // 제거 스크립트 조각 (없으면 수동 제거)
+  downloads?: Record<string, DownloadDef>; // {{download:name}}으로 참조하는 설치 스크립트
+  offline?: OfflineDef; // 오프라인 번들 / 미러 모드
+  shellRc?: ShellRcDef; // 설치 후 rc 블록 (제거 시 블록도 삭제)
+  notSupportedReason?: Partial<Record<OSTarget, string>>; // 지원 안하면 UI 표시 (script보다 구체적인 key면 미지원 처리)
+};
+
+/** 패키지 매니저로 설치하는 모듈의 공통 requires (계열별 base 모듈) */
+const PKG_BASE: DepsByOS = {
+  mac: ["base.homebrew"],
+  debian: ["base.apt"],
+  rhel: ["base.dnf"],
+  arch: ["base.pacman"],
 };
 
 /**
  * 스크립트 안에서 치환되는 변수 규칙:
  *  - {{var}} 형태로 넣고, generator에서 값 치환
+ *  - 모듈은 자기 inputs / derived만 봄 (입력값은 "<module id>.<key>"로 따로 저장)
+ *    다른 모듈과 같은 값을 쓰려면 InputDef.sameAs로 opt-in
  *  - 예: {{git_name}}, {{git_email}}, {{ssh_email}}
+ *  - installCheck / versionCmd / uninstall에도 치환됨
+ *  - 버전 고정 입력(pin)의 "latest"는 pin.latest 값으로 치환 (없으면 "latest" 그대로)
+ *  - 내장 변수 {{os}}, {{arch}}, {{user_home}}: 모든 모듈에서 사용 가능 (scriptRuntime.ts BUILTIN_VARS)
+ *    실행 시점의 bash 변수로 들어가므로 작은따옴표 안에서는 펼쳐지지 않음
+ *
+ * 패키지 하나 설치가 전부인 모듈은 packages로 선언 (script / installCheck / uninstall 생략)
+ *  - installCheck를 따로 쓰면 packages.check 대신 그것을 사용
+ *  - uninstall을 따로 쓰면 그것만 사용 (OS 기본 패키지를 지우지 않도록)
+ *
+ * script 안의 패키지 설치는 ailab_pkg_install / ailab_pkg_remove (brew / apt / dnf / pacman 자동 선택)
+ *  - 이름이 같으면 linux: 한 번만, 배포판마다 다르면 계열 key로 override
+ *
+ * 실행 시점에 감지된 값으로 분기할 때는 AILAB_* 변수 사용 (scriptRuntime.ts renderDetect)
+ *  - AILAB_OS_DETECTED, AILAB_DISTRO_ID, AILAB_DISTRO_VERSION
+ *  - AILAB_ARCH (arm64 / amd64), AILAB_BREW_PREFIX (mac)
+ *
+ * 원격 설치 스크립트는 curl | sh 대신 downloads에 선언하고 {{download:name}} <interpreter> [args]
+ *  - 예: PROFILE=/dev/null {{download:install}} bash
+ *  - 받은 파일 경로가 interpreter의 첫 인자로 들어감
+ *
+ * 오프라인 번들(offline): 미러 모드 스크립트에서 원격 URL 대신
+ *  - {{mirror_dir}}: 미러 디렉터리 (실행 시 AILAB_MIRROR_DIR, 기본은 install.sh가 있는 곳)
+ *  - {{artifact:name}}: offline.artifacts 파일 경로 (CPU별이면 실행 중인 CPU 것)
+ *
+ * 설치 여부 guard(if command -v ...)는 스크립트에 쓰지 말 것:
+ *  - generator가 installCheck + policy로 블록을 감싼다
+ *
+ * uninstall:
+ *  - 제거 스크립트도 installCheck로 감싸짐 (설치 안 돼 있으면 건너뜀)
+ *  - OS 기본 구성요소(CLT, python3 on Ubuntu 등)나 개인 데이터(SSH 키)는 넣지 않음
+ *
+ * shell rc 파일에 직접 echo >> 하지 말 것:
+ *  - shellRc로 선언하면 generator가 마커 블록으로 교체/삭제한다
  */
 export const MODULES: ModuleDef[] = [
   // ------------------------------------------------------------
@@ -57,25 +222,34 @@ export const MODULES: ModuleDef[] = [
     iconSlug: "apple",
     shortDesc: "macOS에서 개발 도구(컴파일러/기본 유틸) 설치",
     defaultPolicy: "skip",
+    suggests: [
+      {
+        id: "base.homebrew",
+        reason: "macOS 패키지 설치는 대부분 Homebrew 기반",
+      },
+    ],
     installCheck: {
       mac: `xcode-select -p >/dev/null 2>&1`,
-      ubuntu: `true`,
     },
+    versionCmd: `xcode-select --version`,
     script: {
       mac: `
-echo "[CLT] Checking Xcode Command Line Tools..."
-if xcode-select -p >/dev/null 2>&1; then
-  echo "[CLT] Already installed. Skipping."
-else
-  echo "[CLT] Installing... (a popup may appear)"
-  xcode-select --install || true
-  echo "[CLT] If installer popup opened, finish it then re-run the script."
+echo "[CLT] Installing... (a popup may appear)"
+xcode-select --install || true
+if ! xcode-select -p >/dev/null 2>&1; then
+  echo "[CLT] Finish the installer popup, then re-run the script."
+  exit 1
 fi
-`,
-      ubuntu: `
-echo "[CLT] Not applicable on Ubuntu. Skipping."
 `,
     },
+    notSupportedReason: {
+      linux: "macOS 전용 (Linux는 배포판별 base 모듈 사용)",
+    },
+    offline: {
+      notSupportedReason: {
+        mac: "Apple 서버에서 받아야 해서 미러로 설치할 수 없음 (미리 설치된 이미지 사용)",
+      },
+    },
   },
   {
     id: "base.homebrew",
@@ -88,51 +262,149 @@ echo "[CLT] Not applicable on Ubuntu. Skipping."
     requires: ["base.clt"],
     installCheck: {
       mac: `command -v brew >/dev/null 2>&1`,
-      ubuntu: `true`,
     },
+    versionCmd: `brew --version`,
     script: {
       mac: `
-echo "[BREW] Checking Homebrew..."
-if command -v brew >/dev/null 2>&1; then
-  echo "[BREW] Already installed. Skipping."
-else
-  echo "[BREW] Installing Homebrew..."
-  NONINTERACTIVE=1 /bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/Homebrew/install/HEAD/install.sh)"
-  # Intel Mac 기준: /usr/local/bin/brew
-  if [ -x "/usr/local/bin/brew" ]; then
-    echo "[BREW] Installed at /usr/local/bin/brew"
-  fi
-fi
+echo "[BREW] Installing Homebrew..."
+NONINTERACTIVE=1 {{download:install}} /bin/bash
+# 설치 위치: Apple Silicon /opt/homebrew, Intel /usr/local (AILAB_BREW_PREFIX)
+echo "[BREW] Installed at $AILAB_BREW_PREFIX/bin/brew"
+ailab_env 'eval "$("$AILAB_BREW_PREFIX/bin/brew" shellenv)"'
 `,
-      ubuntu: `
-echo "[BREW] Not used on Ubuntu (apt preferred). Skipping."
+    },
+    shellRc: {
+      // Apple Silicon은 새 터미널에서도 PATH에 넣어줘야 brew가 보임
+      lines: [
+        `if [ -x /opt/homebrew/bin/brew ]; then eval "$(/opt/homebrew/bin/brew shellenv)"; fi`,
+      ],
+    },
+    uninstall: {
+      mac: `
+echo "[BREW] Uninstalling Homebrew..."
+NONINTERACTIVE=1 {{download:uninstall}} /bin/bash
 `,
     },
+    downloads: {
+      install: {
+        url: "https://raw.githubusercontent.com/Homebrew/install/HEAD/install.sh",
+        unverified: "Homebrew는 HEAD installer만 제공 (고정 해시 없음)",
+      },
+      uninstall: {
+        url: "https://raw.githubusercontent.com/Homebrew/install/HEAD/uninstall.sh",
+        unverified: "Homebrew는 HEAD uninstaller만 제공 (고정 해시 없음)",
+      },
+    },
     notSupportedReason: {
-      ubuntu: "Ubuntu는 apt 기반으로 진행합니다.",
+      linux: "Linux는 배포판 패키지 매니저(apt / dnf / pacman)로 진행합니다.",
+    },
+    offline: {
+      notSupportedReason: {
+        mac: "설치 프로그램이 GitHub에서 저장소를 받아야 해서 미러로 설치할 수 없음 (미리 설치된 이미지 사용)",
+      },
     },
   },
   {
     id: "base.apt",
     name: "apt update + essentials",
     category: ["os_reset", "beginner", "dev_env"],
-    tags: ["apt", "ubuntu", "curl", "git", "build-essential"],
+    tags: ["apt", "ubuntu", "debian", "wsl", "curl", "git", "build-essential"],
     iconSlug: "ubuntu",
-    shortDesc: "Ubuntu 필수 패키지 업데이트 + 기본 유틸 설치",
+    shortDesc: "Ubuntu/Debian 필수 패키지 업데이트 + 기본 유틸 설치",
     defaultPolicy: "skip",
+    suggests: [{ id: "dev.git", reason: "소스 받기/버전관리에 바로 필요" }],
     installCheck: {
-      ubuntu: `command -v curl >/dev/null 2>&1`,
-      mac: `true`,
+      debian: `command -v curl >/dev/null 2>&1`,
     },
+    versionCmd: `apt-get --version`,
     script: {
-      ubuntu: `
+      debian: `
 echo "[APT] Updating apt & installing essentials..."
 sudo apt-get update -y
 sudo apt-get install -y curl git build-essential ca-certificates
 `,
-      mac: `
-echo "[APT] Not applicable on macOS. Skipping."
+    },
+    notSupportedReason: {
+      mac: "Debian 계열 전용 (macOS는 base.homebrew 사용)",
+      rhel: "Fedora/RHEL은 base.dnf 사용",
+      arch: "Arch는 base.pacman 사용",
+    },
+    offline: {
+      script: {
+        debian: `
+echo "[APT] Installing essentials from the offline mirror..."
+ailab_pkg_install curl git build-essential ca-certificates
 `,
+      },
+    },
+  },
+  {
+    id: "base.dnf",
+    name: "dnf update + essentials",
+    category: ["os_reset", "beginner", "dev_env"],
+    tags: ["dnf", "fedora", "rhel", "curl", "git", "gcc"],
+    iconSlug: "fedora",
+    shortDesc: "Fedora/RHEL 패키지 메타데이터 갱신 + 기본 유틸 설치",
+    defaultPolicy: "skip",
+    suggests: [{ id: "dev.git", reason: "소스 받기/버전관리에 바로 필요" }],
+    installCheck: {
+      rhel: `command -v curl >/dev/null 2>&1 && command -v make >/dev/null 2>&1`,
+    },
+    versionCmd: `dnf --version`,
+    script: {
+      rhel: `
+echo "[DNF] Refreshing metadata & installing essentials..."
+sudo dnf makecache -y
+sudo dnf install -y curl git gcc gcc-c++ make ca-certificates
+`,
+    },
+    notSupportedReason: {
+      mac: "Fedora/RHEL 전용 (macOS는 base.homebrew 사용)",
+      debian: "Debian 계열은 base.apt 사용",
+      arch: "Arch는 base.pacman 사용",
+    },
+    offline: {
+      script: {
+        rhel: `
+echo "[DNF] Installing essentials from the offline mirror..."
+ailab_pkg_install curl git gcc gcc-c++ make ca-certificates
+`,
+      },
+    },
+  },
+  {
+    id: "base.pacman",
+    name: "pacman sync + essentials",
+    category: ["os_reset", "beginner", "dev_env"],
+    tags: ["pacman", "arch", "curl", "git", "base-devel"],
+    iconSlug: "archlinux",
+    shortDesc: "Arch 패키지 동기화 + 기본 유틸(base-devel) 설치",
+    defaultPolicy: "skip",
+    suggests: [{ id: "dev.git", reason: "소스 받기/버전관리에 바로 필요" }],
+    installCheck: {
+      arch: `command -v curl >/dev/null 2>&1 && command -v make >/dev/null 2>&1`,
+    },
+    versionCmd: `pacman --version | grep -m 1 Pacman`,
+    script: {
+      arch: `
+echo "[PACMAN] Syncing & installing essentials..."
+# Arch는 부분 업그레이드를 지원하지 않으므로 -Syu
+sudo pacman -Syu --noconfirm
+sudo pacman -S --needed --noconfirm curl git base-devel ca-certificates
+`,
+    },
+    notSupportedReason: {
+      mac: "Arch 전용 (macOS는 base.homebrew 사용)",
+      debian: "Debian 계열은 base.apt 사용",
+      rhel: "Fedora/RHEL은 base.dnf 사용",
+    },
+    offline: {
+      script: {
+        arch: `
+echo "[PACMAN] Installing essentials from the offline mirror..."
+ailab_pkg_install curl git base-devel ca-certificates
+`,
+      },
     },
   },
 
@@ -147,28 +419,21 @@ echo "[APT] Not applicable on macOS. Skipping."
     iconSlug: "git",
     shortDesc: "버전관리 도구 Git 설치",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
-    installCheck: {
-      mac: `command -v git >/dev/null 2>&1`,
-      ubuntu: `command -v git >/dev/null 2>&1`,
-    },
-    script: {
-      mac: `
-echo "[GIT] Installing git..."
-if command -v git >/dev/null 2>&1; then
-  echo "[GIT] Already installed. Skipping."
-else
-  brew install git
-fi
-`,
-      ubuntu: `
-echo "[GIT] Installing git..."
-if command -v git >/dev/null 2>&1; then
-  echo "[GIT] Already installed. Skipping."
-else
-  sudo apt-get install -y git
-fi
-`,
+    requires: PKG_BASE,
+    suggests: [
+      {
+        id: "dev.git_config",
+        reason: "커밋 작성자(name/email)를 먼저 설정해두면 편함",
+      },
+      { id: "dev.gh_cli", reason: "PR/이슈를 터미널에서 다룰 수 있음" },
+    ],
+    versionCmd: `git --version`,
+    packages: {
+      check: "git",
+      brew: "git",
+      apt: "git",
+      dnf: "git",
+      pacman: "git",
     },
   },
   {
@@ -180,6 +445,12 @@ fi
     shortDesc: "Git 커밋 작성자 정보를 자동 설정",
     defaultPolicy: "skip",
     requires: ["dev.git"],
+    suggests: [
+      {
+        id: "dev.github_ssh",
+        reason: "GitHub push/clone을 비밀번호 없이 하려면 SSH 키 필요",
+      },
+    ],
     inputs: [
       {
         key: "git_name",
@@ -187,6 +458,7 @@ fi
         placeholder: "ChoiJS",
         required: true,
         hint: "커밋에 찍힐 이름",
+        validators: [{ kind: "maxLength", value: 100 }],
       },
       {
         key: "git_email",
@@ -194,6 +466,7 @@ fi
         placeholder: "you@example.com",
         required: true,
         hint: "커밋에 찍힐 이메일",
+        validators: [{ kind: "email" }],
       },
     ],
     script: {
@@ -205,13 +478,25 @@ git config --global init.defaultBranch main
 git config --global fetch.prune true
 git config --global core.autocrlf input
 `,
-      ubuntu: `
+      linux: `
 echo "[GIT-CONFIG] Setting global git identity..."
 git config --global user.name "{{git_name}}"
 git config --global user.email "{{git_email}}"
 git config --global init.defaultBranch main
 git config --global fetch.prune true
 git config --global core.autocrlf input
+`,
+    },
+    uninstall: {
+      mac: `
+echo "[GIT-CONFIG] Removing global git identity..."
+git config --global --unset-all user.name || true
+git config --global --unset-all user.email || true
+`,
+      linux: `
+echo "[GIT-CONFIG] Removing global git identity..."
+git config --global --unset-all user.name || true
+git config --global --unset-all user.email || true
 `,
     },
   },
@@ -228,32 +513,97 @@ git config --global core.autocrlf input
     shortDesc: "Node 버전관리(nvm) 설치",
     defaultPolicy: "skip",
     requires: ["dev.git"], // nvm은 git clone 기반
+    suggests: [
+      { id: "lang.node_lts", reason: "nvm만으로는 node가 설치되지 않음" },
+    ],
+    inputs: [
+      {
+        key: "nvm_version",
+        label: "nvm 버전",
+        defaultValue: "v0.40.3",
+        hint: "latest: nvm 저장소 master의 installer (최신 릴리스 설치)",
+        pin: { versions: ["v0.40.3", "v0.40.1", "v0.39.7"], latest: "master" },
+      },
+    ],
     installCheck: {
       mac: `[ -s "$HOME/.nvm/nvm.sh" ]`,
-      ubuntu: `[ -s "$HOME/.nvm/nvm.sh" ]`,
+      linux: `[ -s "$HOME/.nvm/nvm.sh" ]`,
     },
+    versionCmd: `. "$HOME/.nvm/nvm.sh" >/dev/null 2>&1; nvm --version`,
     script: {
       mac: `
-echo "[NVM] Installing nvm..."
-if [ -s "$HOME/.nvm/nvm.sh" ]; then
-  echo "[NVM] Already installed. Skipping."
-else
-  curl -fsSL https://raw.githubusercontent.com/nvm-sh/nvm/v0.40.3/install.sh | bash
-fi
-export NVM_DIR="$HOME/.nvm"
-[ -s "$NVM_DIR/nvm.sh" ] && . "$NVM_DIR/nvm.sh"
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NVM] Installing nvm {{nvm_version}}..."
+# rc 파일은 shellRc 블록으로 관리 (installer가 직접 고치지 않게)
+PROFILE=/dev/null {{download:install}} bash
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
 `,
-      ubuntu: `
-echo "[NVM] Installing nvm..."
-if [ -s "$HOME/.nvm/nvm.sh" ]; then
-  echo "[NVM] Already installed. Skipping."
-else
-  curl -fsSL https://raw.githubusercontent.com/nvm-sh/nvm/v0.40.3/install.sh | bash
-fi
-export NVM_DIR="$HOME/.nvm"
-[ -s "$NVM_DIR/nvm.sh" ] && . "$NVM_DIR/nvm.sh"
+      linux: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NVM] Installing nvm {{nvm_version}}..."
+# rc 파일은 shellRc 블록으로 관리 (installer가 직접 고치지 않게)
+PROFILE=/dev/null {{download:install}} bash
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
 `,
     },
+    shellRc: {
+      lines: [
+        'export NVM_DIR="$HOME/.nvm"',
+        '[ -s "$NVM_DIR/nvm.sh" ] && . "$NVM_DIR/nvm.sh"',
+        '[ -s "$NVM_DIR/bash_completion" ] && . "$NVM_DIR/bash_completion"',
+      ],
+    },
+    uninstall: {
+      mac: `
+echo "[NVM] Removing nvm (~/.nvm)..."
+rm -rf "$HOME/.nvm"
+`,
+      linux: `
+echo "[NVM] Removing nvm (~/.nvm)..."
+rm -rf "$HOME/.nvm"
+`,
+    },
+    downloads: {
+      install: {
+        url: "https://raw.githubusercontent.com/nvm-sh/nvm/{{nvm_version}}/install.sh",
+        sha256: {
+          "https://raw.githubusercontent.com/nvm-sh/nvm/v0.40.3/install.sh":
+            "2d8359a64a3cb07c02389ad88ceecd43f2fa469c06104f92f98df5b6f315275f",
+        },
+        unverified: {
+          "https://raw.githubusercontent.com/nvm-sh/nvm/master/install.sh":
+            "latest는 master 브랜치 installer (고정 해시 없음)",
+        },
+      },
+    },
+    offline: {
+      artifacts: [
+        {
+          name: "nvm.tar.gz",
+          url: "https://github.com/nvm-sh/nvm/archive/{{nvm_version}}.tar.gz",
+        },
+      ],
+      script: {
+        mac: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NVM] Installing nvm {{nvm_version}} from the offline mirror..."
+mkdir -p "$HOME/.nvm"
+tar -xzf "{{artifact:nvm.tar.gz}}" --strip-components 1 -C "$HOME/.nvm"
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
+`,
+        linux: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NVM] Installing nvm {{nvm_version}} from the offline mirror..."
+mkdir -p "$HOME/.nvm"
+tar -xzf "{{artifact:nvm.tar.gz}}" --strip-components 1 -C "$HOME/.nvm"
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
+`,
+      },
+    },
   },
   {
     id: "lang.node_lts",
@@ -261,32 +611,135 @@ export NVM_DIR="$HOME/.nvm"
     category: ["languages", "dev_env"],
     tags: ["node", "npm", "lts"],
     iconSlug: "nodedotjs",
-    shortDesc: "Node LTS 설치 + 기본 버전 지정",
+    shortDesc: "Node 설치(기본 LTS, 버전 고정 가능) + 기본 버전 지정",
     defaultPolicy: "skip",
     requires: ["lang.nvm"],
+    suggests: [
+      { id: "cli.jq", reason: "package.json 등 JSON을 터미널에서 다루기 쉬움" },
+      { id: "dev.vscode", reason: "JS/TS 개발용 에디터" },
+    ],
+    inputs: [
+      {
+        key: "node_version",
+        label: "Node.js 버전",
+        defaultValue: "latest",
+        hint: "latest: 최신 LTS / 숫자만 고르면 그 major의 최신 버전",
+        pin: { versions: ["24", "22", "20"], latest: "lts/*" },
+      },
+    ],
     installCheck: {
-      mac: `command -v node >/dev/null 2>&1`,
-      ubuntu: `command -v node >/dev/null 2>&1`,
+      mac: `(set +u; . "$HOME/.nvm/nvm.sh" && nvm which "{{node_version}}") >/dev/null 2>&1`,
+      linux: `(set +u; . "$HOME/.nvm/nvm.sh" && nvm which "{{node_version}}") >/dev/null 2>&1`,
     },
+    versionCmd: `. "$HOME/.nvm/nvm.sh" >/dev/null 2>&1; node -v`,
     script: {
       mac: `
-echo "[NODE] Installing Node LTS via nvm..."
-export NVM_DIR="$HOME/.nvm"
-[ -s "$NVM_DIR/nvm.sh" ] && . "$NVM_DIR/nvm.sh"
-nvm install --lts
-nvm use --lts
-nvm alias default lts/*
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NODE] Installing Node {{node_version}} via nvm..."
+# nvm 모듈이 skip됐을 수도 있으므로 직접 로드
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
+nvm install "{{node_version}}"
+nvm use "{{node_version}}"
+nvm alias default "{{node_version}}"
 echo "[NODE] node=$(node -v) npm=$(npm -v)"
 `,
-      ubuntu: `
-echo "[NODE] Installing Node LTS via nvm..."
+      linux: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NODE] Installing Node {{node_version}} via nvm..."
+# nvm 모듈이 skip됐을 수도 있으므로 직접 로드
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
+nvm install "{{node_version}}"
+nvm use "{{node_version}}"
+nvm alias default "{{node_version}}"
+echo "[NODE] node=$(node -v) npm=$(npm -v)"
+`,
+    },
+    uninstall: {
+      mac: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NODE] Uninstalling Node {{node_version}}..."
+export NVM_DIR="$HOME/.nvm"
+. "$NVM_DIR/nvm.sh"
+nvm deactivate >/dev/null 2>&1 || true
+nvm unalias default >/dev/null 2>&1 || true
+nvm uninstall "{{node_version}}"
+`,
+      linux: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NODE] Uninstalling Node {{node_version}}..."
 export NVM_DIR="$HOME/.nvm"
-[ -s "$NVM_DIR/nvm.sh" ] && . "$NVM_DIR/nvm.sh"
-nvm install --lts
-nvm use --lts
-nvm alias default lts/*
+. "$NVM_DIR/nvm.sh"
+nvm deactivate >/dev/null 2>&1 || true
+nvm unalias default >/dev/null 2>&1 || true
+nvm uninstall "{{node_version}}"
+`,
+    },
+    offline: {
+      script: {
+        mac: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NODE] Installing Node {{node_version}} from the offline mirror..."
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
+# nodejs.org/dist와 같은 구조 (index.tab + <version>/SHASUMS256.txt + tarball)
+export NVM_NODEJS_ORG_MIRROR="file://{{mirror_dir}}/lang.node_lts"
+nvm install "{{node_version}}"
+nvm use "{{node_version}}"
+nvm alias default "{{node_version}}"
 echo "[NODE] node=$(node -v) npm=$(npm -v)"
 `,
+        linux: `
+set +u # nvm.sh는 set -u와 호환되지 않음
+echo "[NODE] Installing Node {{node_version}} from the offline mirror..."
+ailab_env 'export NVM_DIR="$HOME/.nvm"'
+ailab_env 'if [ -s "$NVM_DIR/nvm.sh" ]; then . "$NVM_DIR/nvm.sh"; fi'
+# nodejs.org/dist와 같은 구조 (index.tab + <version>/SHASUMS256.txt + tarball)
+export NVM_NODEJS_ORG_MIRROR="file://{{mirror_dir}}/lang.node_lts"
+nvm install "{{node_version}}"
+nvm use "{{node_version}}"
+nvm alias default "{{node_version}}"
+echo "[NODE] node=$(node -v) npm=$(npm -v)"
+`,
+      },
+      fetch: {
+        desc: "Node.js 배포 목록(index.tab) + 선택한 버전의 tarball / SHASUMS256.txt",
+        script: {
+          mac: `
+dir="{{mirror_dir}}/lang.node_lts"
+ailab_fetch_file https://nodejs.org/dist/index.tab "$dir/index.tab" ""
+# latest(lts/*)면 최신 LTS, 숫자면 그 major의 최신 버전
+v="$(awk -F '\\t' -v want="{{node_version}}" 'NR > 1 && ((want == "lts/*" && $10 != "-") || index($1, "v" want ".") == 1) { print $1; exit }' "$dir/index.tab")"
+if [ -z "$v" ]; then
+  echo "[FETCH] Node.js {{node_version}} not found in index.tab" >&2
+  exit 1
+fi
+ailab_fetch_file "https://nodejs.org/dist/$v/SHASUMS256.txt" "$dir/$v/SHASUMS256.txt" ""
+# nvm은 xz가 있으면 tar.xz, 없으면 tar.gz를 받으므로 둘 다
+for f in "node-$v-darwin-arm64.tar.xz" "node-$v-darwin-arm64.tar.gz" "node-$v-darwin-x64.tar.xz" "node-$v-darwin-x64.tar.gz"; do
+  sum="$(awk -v f="$f" '$2 == f { print $1 }' "$dir/$v/SHASUMS256.txt")"
+  ailab_fetch_file "https://nodejs.org/dist/$v/$f" "$dir/$v/$f" "$sum"
+done
+`,
+          linux: `
+dir="{{mirror_dir}}/lang.node_lts"
+ailab_fetch_file https://nodejs.org/dist/index.tab "$dir/index.tab" ""
+# latest(lts/*)면 최신 LTS, 숫자면 그 major의 최신 버전
+v="$(awk -F '\\t' -v want="{{node_version}}" 'NR > 1 && ((want == "lts/*" && $10 != "-") || index($1, "v" want ".") == 1) { print $1; exit }' "$dir/index.tab")"
+if [ -z "$v" ]; then
+  echo "[FETCH] Node.js {{node_version}} not found in index.tab" >&2
+  exit 1
+fi
+ailab_fetch_file "https://nodejs.org/dist/$v/SHASUMS256.txt" "$dir/$v/SHASUMS256.txt" ""
+# nvm은 xz가 있으면 tar.xz, 없으면 tar.gz를 받으므로 둘 다
+for f in "node-$v-linux-arm64.tar.xz" "node-$v-linux-arm64.tar.gz" "node-$v-linux-x64.tar.xz" "node-$v-linux-x64.tar.gz"; do
+  sum="$(awk -v f="$f" '$2 == f { print $1 }' "$dir/$v/SHASUMS256.txt")"
+  ailab_fetch_file "https://nodejs.org/dist/$v/$f" "$dir/$v/$f" "$sum"
+done
+`,
+        },
+      },
     },
   },
 
@@ -301,32 +754,70 @@ echo "[NODE] node=$(node -v) npm=$(npm -v)"
     iconSlug: "visualstudiocode",
     shortDesc: "가장 대중적인 개발 에디터 설치",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
+    requires: PKG_BASE,
+    suggests: [
+      { id: "dev.git", reason: "에디터 Source Control 기능이 git을 사용" },
+    ],
     installCheck: {
       mac: `brew list --cask visual-studio-code >/dev/null 2>&1`,
-      ubuntu: `command -v code >/dev/null 2>&1`,
+      linux: `command -v code >/dev/null 2>&1`,
     },
+    versionCmd: `code --version`,
     script: {
       mac: `
 echo "[VSCODE] Installing VS Code..."
-if brew list --cask visual-studio-code >/dev/null 2>&1; then
-  echo "[VSCODE] Already installed. Skipping."
-else
-  brew install --cask visual-studio-code
-fi
+brew install --cask visual-studio-code
 `,
       ubuntu: `
 echo "[VSCODE] Installing VS Code..."
-if command -v code >/dev/null 2>&1; then
-  echo "[VSCODE] Already installed. Skipping."
-else
-  sudo snap install --classic code || true
-  if ! command -v code >/dev/null 2>&1; then
-    echo "[VSCODE] Snap failed. Please install VS Code manually or via apt repo."
-  fi
-fi
+sudo snap install --classic code
+`,
+      arch: `
+echo "[VSCODE] Installing VS Code (Code - OSS)..."
+ailab_pkg_install code
 `,
     },
+    uninstall: {
+      mac: `
+echo "[VSCODE] Uninstalling VS Code..."
+brew uninstall --cask visual-studio-code
+`,
+      ubuntu: `
+echo "[VSCODE] Removing VS Code..."
+sudo snap remove code
+`,
+      arch: `
+echo "[VSCODE] Removing VS Code (Code - OSS)..."
+ailab_pkg_remove code
+`,
+    },
+    notSupportedReason: {
+      wsl: "Windows에 VS Code를 설치하고 WSL 확장으로 연결하세요.",
+      debian:
+        "Debian은 snap이 기본 제공되지 않음: 공식 .deb 패키지로 설치하세요.",
+      rhel: "Microsoft rpm 저장소를 등록한 뒤 설치하세요.",
+    },
+    offline: {
+      script: {
+        ubuntu: `
+echo "[VSCODE] Installing VS Code from the offline mirror..."
+sudo snap ack "{{mirror_dir}}"/dev.vscode/code_*.assert
+sudo snap install --classic "{{mirror_dir}}"/dev.vscode/code_*.snap
+`,
+      },
+      fetch: {
+        desc: "VS Code 설치 파일 (macOS: Homebrew cask / Ubuntu: snap)",
+        script: {
+          mac: `
+brew fetch --cask visual-studio-code
+`,
+          ubuntu: `
+mkdir -p "{{mirror_dir}}/dev.vscode"
+(cd "{{mirror_dir}}/dev.vscode" && snap download code)
+`,
+        },
+      },
+    },
   },
 
   // ------------------------------------------------------------
@@ -340,31 +831,20 @@ fi
     iconSlug: "github",
     shortDesc: "GitHub 명령줄 도구(gh) 설치",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
-    installCheck: {
-      mac: `command -v gh >/dev/null 2>&1`,
-      ubuntu: `command -v gh >/dev/null 2>&1`,
-    },
-    script: {
-      mac: `
-echo "[GH] Installing GitHub CLI..."
-if command -v gh >/dev/null 2>&1; then
-  echo "[GH] Already installed. Skipping."
-else
-  brew install gh
-fi
-`,
-      ubuntu: `
-echo "[GH] Installing GitHub CLI..."
-if command -v gh >/dev/null 2>&1; then
-  echo "[GH] Already installed. Skipping."
-else
-  sudo apt-get install -y gh || true
-  if ! command -v gh >/dev/null 2>&1; then
-    echo "[GH] apt install failed. Please follow GitHub CLI official install."
-  fi
-fi
-`,
+    requires: PKG_BASE,
+    suggests: [
+      {
+        id: "dev.github_ssh",
+        reason: "gh auth login 시 SSH 키를 바로 등록 가능",
+      },
+    ],
+    versionCmd: `gh --version`,
+    packages: {
+      check: "gh",
+      brew: "gh",
+      apt: "gh",
+      dnf: "gh",
+      pacman: "github-cli",
     },
   },
   {
@@ -375,18 +855,23 @@ fi
     iconSlug: "github",
     shortDesc: "GitHub용 SSH 키 생성 + agent 등록(복붙 최소화)",
     defaultPolicy: "skip",
+    suggests: [
+      { id: "dev.gh_cli", reason: "gh ssh-key add 로 공개키 등록을 자동화" },
+    ],
     inputs: [
       {
         key: "ssh_email",
         label: "SSH key comment (email)",
         placeholder: "you@example.com",
         required: true,
-        hint: "ssh-keygen -C 에 들어감",
+        hint: "ssh-keygen -C 에 들어감 (비우면 Git user.email 사용)",
+        validators: [{ kind: "email" }],
+        sameAs: "dev.git_config.git_email",
       },
     ],
     installCheck: {
       mac: `[ -f "$HOME/.ssh/id_ed25519" ]`,
-      ubuntu: `[ -f "$HOME/.ssh/id_ed25519" ]`,
+      linux: `[ -f "$HOME/.ssh/id_ed25519" ]`,
     },
     script: {
       mac: `
@@ -394,11 +879,12 @@ echo "[SSH] Setting up GitHub SSH key..."
 mkdir -p "$HOME/.ssh"
 chmod 700 "$HOME/.ssh"
 
+# overwrite policy로 다시 돌 때 기존 키는 백업
 if [ -f "$HOME/.ssh/id_ed25519" ]; then
-  echo "[SSH] Key already exists. Skipping keygen."
-else
-  ssh-keygen -t ed25519 -C "{{ssh_email}}" -f "$HOME/.ssh/id_ed25519" -N ""
+  mv "$HOME/.ssh/id_ed25519" "$HOME/.ssh/id_ed25519.bak.$(date +%s)"
+  mv "$HOME/.ssh/id_ed25519.pub" "$HOME/.ssh/id_ed25519.pub.bak.$(date +%s)" 2>/dev/null || true
 fi
+ssh-keygen -t ed25519 -C "{{ssh_email}}" -f "$HOME/.ssh/id_ed25519" -N ""
 
 # Start agent
 eval "$(ssh-agent -s)" >/dev/null
@@ -411,16 +897,17 @@ chmod 600 "$HOME/.ssh/known_hosts"
 echo "[SSH] Public key:"
 cat "$HOME/.ssh/id_ed25519.pub"
 `,
-      ubuntu: `
+      linux: `
 echo "[SSH] Setting up GitHub SSH key..."
 mkdir -p "$HOME/.ssh"
 chmod 700 "$HOME/.ssh"
 
+# overwrite policy로 다시 돌 때 기존 키는 백업
 if [ -f "$HOME/.ssh/id_ed25519" ]; then
-  echo "[SSH] Key already exists. Skipping keygen."
-else
-  ssh-keygen -t ed25519 -C "{{ssh_email}}" -f "$HOME/.ssh/id_ed25519" -N ""
+  mv "$HOME/.ssh/id_ed25519" "$HOME/.ssh/id_ed25519.bak.$(date +%s)"
+  mv "$HOME/.ssh/id_ed25519.pub" "$HOME/.ssh/id_ed25519.pub.bak.$(date +%s)" 2>/dev/null || true
 fi
+ssh-keygen -t ed25519 -C "{{ssh_email}}" -f "$HOME/.ssh/id_ed25519" -N ""
 
 eval "$(ssh-agent -s)" >/dev/null
 ssh-add "$HOME/.ssh/id_ed25519" >/dev/null
@@ -445,20 +932,17 @@ cat "$HOME/.ssh/id_ed25519.pub"
     iconSlug: "ripgrep",
     shortDesc: "초고속 텍스트 검색 도구",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
-    installCheck: {
-      mac: `command -v rg >/dev/null 2>&1`,
-      ubuntu: `command -v rg >/dev/null 2>&1`,
-    },
-    script: {
-      mac: `
-echo "[RG] Installing ripgrep..."
-command -v rg >/dev/null 2>&1 || brew install ripgrep
-`,
-      ubuntu: `
-echo "[RG] Installing ripgrep..."
-command -v rg >/dev/null 2>&1 || sudo apt-get install -y ripgrep
-`,
+    requires: PKG_BASE,
+    suggests: [
+      { id: "cli.fzf", reason: "rg 결과를 퍼지 검색으로 바로 고르기" },
+    ],
+    versionCmd: `rg --version`,
+    packages: {
+      check: "rg",
+      brew: "ripgrep",
+      apt: "ripgrep",
+      dnf: "ripgrep",
+      pacman: "ripgrep",
     },
   },
   {
@@ -469,20 +953,14 @@ command -v rg >/dev/null 2>&1 || sudo apt-get install -y ripgrep
     iconSlug: "jq",
     shortDesc: "JSON 파싱/가공 CLI",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
-    installCheck: {
-      mac: `command -v jq >/dev/null 2>&1`,
-      ubuntu: `command -v jq >/dev/null 2>&1`,
-    },
-    script: {
-      mac: `
-echo "[JQ] Installing jq..."
-command -v jq >/dev/null 2>&1 || brew install jq
-`,
-      ubuntu: `
-echo "[JQ] Installing jq..."
-command -v jq >/dev/null 2>&1 || sudo apt-get install -y jq
-`,
+    requires: PKG_BASE,
+    versionCmd: `jq --version`,
+    packages: {
+      check: "jq",
+      brew: "jq",
+      apt: "jq",
+      dnf: "jq",
+      pacman: "jq",
     },
   },
   {
@@ -493,20 +971,18 @@ command -v jq >/dev/null 2>&1 || sudo apt-get install -y jq
     iconSlug: "fzf",
     shortDesc: "터미널 퍼지 파인더(검색 속도 체감 큼)",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
-    installCheck: {
-      mac: `command -v fzf >/dev/null 2>&1`,
-      ubuntu: `command -v fzf >/dev/null 2>&1`,
-    },
-    script: {
-      mac: `
-echo "[FZF] Installing fzf..."
-command -v fzf >/dev/null 2>&1 || brew install fzf
-`,
-      ubuntu: `
-echo "[FZF] Installing fzf..."
-command -v fzf >/dev/null 2>&1 || sudo apt-get install -y fzf
-`,
+    requires: PKG_BASE,
+    suggests: [
+      { id: "cli.ripgrep", reason: "fzf 기본 검색 소스로 rg를 쓰면 빠름" },
+      { id: "cli.bat", reason: "fzf 미리보기 창에 컬러 출력" },
+    ],
+    versionCmd: `fzf --version`,
+    packages: {
+      check: "fzf",
+      brew: "fzf",
+      apt: "fzf",
+      dnf: "fzf",
+      pacman: "fzf",
     },
   },
   {
@@ -517,25 +993,20 @@ command -v fzf >/dev/null 2>&1 || sudo apt-get install -y fzf
     iconSlug: "bat",
     shortDesc: "컬러 출력되는 cat 대체 도구",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
-    installCheck: {
-      mac: `command -v bat >/dev/null 2>&1`,
-      ubuntu: `command -v batcat >/dev/null 2>&1 || command -v bat >/dev/null 2>&1`,
-    },
-    script: {
-      mac: `
-echo "[BAT] Installing bat..."
-command -v bat >/dev/null 2>&1 || brew install bat
-`,
-      ubuntu: `
-echo "[BAT] Installing bat..."
-if command -v bat >/dev/null 2>&1; then
-  echo "[BAT] Already installed. Skipping."
-else
-  sudo apt-get install -y bat || true
-  # Ubuntu에서는 batcat일 수 있음
-fi
-`,
+    requires: PKG_BASE,
+    suggests: [
+      {
+        id: "cli.fzf",
+        reason: "fzf --preview 에 bat을 붙이는 조합으로 자주 씀",
+      },
+    ],
+    versionCmd: `bat --version || batcat --version`,
+    packages: {
+      check: ["bat", "batcat"], // Debian/Ubuntu에서는 batcat 이름으로 설치됨
+      brew: "bat",
+      apt: "bat",
+      dnf: "bat",
+      pacman: "bat",
     },
   },
   {
@@ -546,20 +1017,15 @@ fi
     iconSlug: "eza",
     shortDesc: "ls 대체(가독성 좋음)",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
-    installCheck: {
-      mac: `command -v eza >/dev/null 2>&1`,
-      ubuntu: `command -v eza >/dev/null 2>&1`,
-    },
-    script: {
-      mac: `
-echo "[EZA] Installing eza..."
-command -v eza >/dev/null 2>&1 || brew install eza
-`,
-      ubuntu: `
-echo "[EZA] Installing eza..."
-command -v eza >/dev/null 2>&1 || sudo apt-get install -y eza || true
-`,
+    requires: PKG_BASE,
+    suggests: [{ id: "shell.starship", reason: "터미널 가독성 개선 세트" }],
+    versionCmd: `eza --version | grep -m 1 "^v"`,
+    packages: {
+      check: "eza",
+      brew: "eza",
+      apt: "eza",
+      dnf: "eza",
+      pacman: "eza",
     },
   },
 
@@ -574,22 +1040,69 @@ command -v eza >/dev/null 2>&1 || sudo apt-get install -y eza || true
     iconSlug: "starship",
     shortDesc: "터미널 프롬프트 개선(상태 표시)",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
+    requires: PKG_BASE,
+    suggests: [{ id: "cli.eza", reason: "터미널 가독성 개선 세트" }],
     installCheck: {
       mac: `command -v starship >/dev/null 2>&1`,
-      ubuntu: `command -v starship >/dev/null 2>&1`,
+      linux: `command -v starship >/dev/null 2>&1`,
     },
+    versionCmd: `starship --version`,
     script: {
       mac: `
 echo "[STARSHIP] Installing starship..."
-command -v starship >/dev/null 2>&1 || brew install starship
-echo '[ -x "$(command -v starship)" ] && eval "$(starship init zsh)"' >> "$HOME/.zshrc"
+brew install starship
 `,
-      ubuntu: `
+      linux: `
 echo "[STARSHIP] Installing starship..."
-command -v starship >/dev/null 2>&1 || curl -fsSL https://starship.rs/install.sh | sh -s -- -y
-echo '[ -x "$(command -v starship)" ] && eval "$(starship init bash)"' >> "$HOME/.bashrc"
+{{download:install}} sh -y
+`,
+    },
+    shellRc: {
+      lines: [
+        'if command -v starship >/dev/null 2>&1; then eval "$(starship init @shell@)"; fi',
+      ],
+    },
+    uninstall: {
+      mac: `
+echo "[STARSHIP] Uninstalling starship..."
+brew uninstall starship
 `,
+      linux: `
+echo "[STARSHIP] Removing starship..."
+sudo rm -f "$(command -v starship)"
+`,
+    },
+    downloads: {
+      install: {
+        url: "https://raw.githubusercontent.com/starship/starship/v1.22.1/install/install.sh",
+      },
+    },
+    offline: {
+      artifacts: [
+        {
+          name: "starship.tar.gz",
+          url: {
+            arm64:
+              "https://github.com/starship/starship/releases/download/v1.22.1/starship-aarch64-unknown-linux-musl.tar.gz",
+            amd64:
+              "https://github.com/starship/starship/releases/download/v1.22.1/starship-x86_64-unknown-linux-musl.tar.gz",
+          },
+        },
+      ],
+      script: {
+        linux: `
+echo "[STARSHIP] Installing starship from the offline mirror..."
+sudo tar -xzf "{{artifact:starship.tar.gz}}" -C /usr/local/bin starship
+`,
+      },
+      fetch: {
+        desc: "starship Homebrew bottle",
+        script: {
+          mac: `
+ailab_mirror_pkgs starship
+`,
+        },
+      },
     },
   },
 
@@ -604,21 +1117,103 @@ echo '[ -x "$(command -v starship)" ] && eval "$(starship init bash)"' >> "$HOME
     iconSlug: "python",
     shortDesc: "Python 런타임 설치",
     defaultPolicy: "skip",
-    requires: ["base.homebrew"],
+    requires: PKG_BASE,
+    suggests: [
+      { id: "lang.uv", reason: "venv/패키지 설치가 pip보다 훨씬 빠름" },
+    ],
+    inputs: [
+      {
+        key: "python_version",
+        label: "Python 버전",
+        defaultValue: "latest",
+        hint: "latest: 패키지 매니저 기본 버전 / Linux는 배포판 저장소에 있는 버전만 가능",
+        pin: { versions: ["3.13", "3.12", "3.11"] },
+      },
+    ],
+    derived: [
+      {
+        key: "python_bin",
+        desc: "설치된 python 실행 파일 (latest면 python3, 아니면 python3.12 등)",
+        value: (v) =>
+          v.python_version === "latest"
+            ? "python3"
+            : `python${v.python_version}`,
+      },
+    ],
     installCheck: {
-      mac: `command -v python3 >/dev/null 2>&1`,
-      ubuntu: `command -v python3 >/dev/null 2>&1`,
+      mac: `command -v "{{python_bin}}" >/dev/null 2>&1`,
+      linux: `command -v "{{python_bin}}" >/dev/null 2>&1`,
     },
+    versionCmd: `"{{python_bin}}" --version`,
     script: {
       mac: `
-echo "[PY] Installing python3..."
-command -v python3 >/dev/null 2>&1 || brew install python
+echo "[PY] Installing python {{python_version}}..."
+if [ "{{python_version}}" = "latest" ]; then
+  brew install python
+else
+  brew install "python@{{python_version}}"
+fi
 `,
-      ubuntu: `
-echo "[PY] Installing python3..."
-command -v python3 >/dev/null 2>&1 || sudo apt-get install -y python3 python3-pip
+      linux: `
+echo "[PY] Installing python {{python_version}}..."
+if [ "{{python_version}}" = "latest" ]; then
+  ailab_pkg_install python3 python3-pip
+else
+  # 예: Ubuntu 24.04 → python3.12, Fedora → python3.11 ~ 3.13
+  ailab_pkg_install "python{{python_version}}"
+fi
+`,
+      arch: `
+echo "[PY] Installing python {{python_version}}..."
+if [ "{{python_version}}" != "latest" ]; then
+  echo "[PY] Arch 저장소는 최신 python만 제공합니다. (특정 버전은 uv python install 사용)"
+  exit 1
+fi
+ailab_pkg_install python python-pip
 `,
     },
+    uninstall: {
+      mac: `
+echo "[PY] Uninstalling python {{python_version}} (Homebrew)..."
+if [ "{{python_version}}" = "latest" ]; then
+  brew uninstall python
+else
+  brew uninstall "python@{{python_version}}"
+fi
+`,
+      linux: `
+if [ "{{python_version}}" = "latest" ]; then
+  echo "[PY] 배포판 기본 python3는 OS 구성요소라 제거하지 않습니다."
+else
+  echo "[PY] Removing python{{python_version}}..."
+  ailab_pkg_remove "python{{python_version}}"
+fi
+`,
+    },
+    offline: {
+      fetch: {
+        desc: "선택한 버전의 Python 패키지",
+        script: {
+          mac: `
+if [ "{{python_version}}" = "latest" ]; then
+  ailab_mirror_pkgs python
+else
+  ailab_mirror_pkgs "python@{{python_version}}"
+fi
+`,
+          linux: `
+if [ "{{python_version}}" = "latest" ]; then
+  ailab_mirror_pkgs python3 python3-pip
+else
+  ailab_mirror_pkgs "python{{python_version}}"
+fi
+`,
+          arch: `
+ailab_mirror_pkgs python python-pip
+`,
+        },
+      },
+    },
   },
   {
     id: "lang.uv",
@@ -629,19 +1224,74 @@ command -v python3 >/dev/null 2>&1 || sudo apt-get install -y python3 python3-pi
     shortDesc: "초고속 Python 패키지 매니저 uv 설치",
     defaultPolicy: "skip",
     requires: ["lang.python3"],
+    suggests: [{ id: "verify.summary", reason: "설치 결과 버전 확인" }],
     installCheck: {
       mac: `command -v uv >/dev/null 2>&1`,
-      ubuntu: `command -v uv >/dev/null 2>&1`,
+      linux: `command -v uv >/dev/null 2>&1`,
     },
+    versionCmd: `uv --version`,
     script: {
       mac: `
 echo "[UV] Installing uv..."
-command -v uv >/dev/null 2>&1 || curl -fsSL https://astral.sh/uv/install.sh | sh
+{{download:install}} sh
 `,
-      ubuntu: `
+      linux: `
 echo "[UV] Installing uv..."
-command -v uv >/dev/null 2>&1 || curl -fsSL https://astral.sh/uv/install.sh | sh
+{{download:install}} sh
+`,
+    },
+    uninstall: {
+      mac: `
+echo "[UV] Removing uv..."
+uv cache clean || true
+rm -f "$HOME/.local/bin/uv" "$HOME/.local/bin/uvx"
 `,
+      linux: `
+echo "[UV] Removing uv..."
+uv cache clean || true
+rm -f "$HOME/.local/bin/uv" "$HOME/.local/bin/uvx"
+`,
+    },
+    downloads: {
+      install: {
+        url: "https://astral.sh/uv/0.6.0/install.sh",
+      },
+    },
+    offline: {
+      artifacts: [
+        {
+          name: "uv-mac.tar.gz",
+          url: {
+            arm64:
+              "https://github.com/astral-sh/uv/releases/download/0.6.0/uv-aarch64-apple-darwin.tar.gz",
+            amd64:
+              "https://github.com/astral-sh/uv/releases/download/0.6.0/uv-x86_64-apple-darwin.tar.gz",
+          },
+        },
+        {
+          name: "uv-linux.tar.gz",
+          url: {
+            arm64:
+              "https://github.com/astral-sh/uv/releases/download/0.6.0/uv-aarch64-unknown-linux-gnu.tar.gz",
+            amd64:
+              "https://github.com/astral-sh/uv/releases/download/0.6.0/uv-x86_64-unknown-linux-gnu.tar.gz",
+          },
+        },
+      ],
+      script: {
+        mac: `
+echo "[UV] Installing uv from the offline mirror..."
+mkdir -p "$HOME/.local/bin"
+tar -xzf "{{artifact:uv-mac.tar.gz}}" --strip-components 1 -C "$HOME/.local/bin"
+ailab_env 'export PATH="$HOME/.local/bin:$PATH"'
+`,
+        linux: `
+echo "[UV] Installing uv from the offline mirror..."
+mkdir -p "$HOME/.local/bin"
+tar -xzf "{{artifact:uv-linux.tar.gz}}" --strip-components 1 -C "$HOME/.local/bin"
+ailab_env 'export PATH="$HOME/.local/bin:$PATH"'
+`,
+      },
     },
   },
 
@@ -654,12 +1304,14 @@ command -v uv >/dev/null 2>&1 || curl -fsSL https://astral.sh/uv/install.sh | sh
     category: ["beginner", "dev_env"],
     tags: ["verify", "summary", "versions"],
     iconSlug: "terminal",
-    shortDesc: "설치 결과를 버전 출력으로 한 번에 확인",
+    shortDesc: "설치 결과를 버전 출력으로 확인 + 고정한 버전과 비교",
     defaultPolicy: "skip",
     script: {
       mac: `
 echo "------------------------------"
 echo "[VERIFY] Versions summary"
+set +u
+if [ -s "$HOME/.nvm/nvm.sh" ]; then . "$HOME/.nvm/nvm.sh"; fi
 command -v brew >/dev/null 2>&1 && brew --version | head -n 1 || true
 command -v git >/dev/null 2>&1 && git --version || true
 command -v node >/dev/null 2>&1 && node -v || true
@@ -668,10 +1320,14 @@ command -v python3 >/dev/null 2>&1 && python3 --version || true
 command -v rg >/dev/null 2>&1 && rg --version | head -n 1 || true
 command -v jq >/dev/null 2>&1 && jq --version || true
 echo "------------------------------"
+# 버전을 고정한 모듈: 실제 설치된 버전과 다르면 실패로 기록
+ailab_verify_pins
 `,
-      ubuntu: `
+      linux: `
 echo "------------------------------"
 echo "[VERIFY] Versions summary"
+set +u
+if [ -s "$HOME/.nvm/nvm.sh" ]; then . "$HOME/.nvm/nvm.sh"; fi
 command -v git >/dev/null 2>&1 && git --version || true
 command -v node >/dev/null 2>&1 && node -v || true
 command -v npm >/dev/null 2>&1 && npm -v || true
@@ -679,7 +1335,14 @@ command -v python3 >/dev/null 2>&1 && python3 --version || true
 command -v rg >/dev/null 2>&1 && rg --version | head -n 1 || true
 command -v jq >/dev/null 2>&1 && jq --version || true
 echo "------------------------------"
+# 버전을 고정한 모듈: 실제 설치된 버전과 다르면 실패로 기록
+ailab_verify_pins
 `,
     },
   },
 ];
+
+/** id → 모듈 (generator / UI 공용) */
+export const MODULE_BY_ID: Map<string, ModuleDef> = new Map(
+  MODULES.map((m) => [m.id, m])
+);
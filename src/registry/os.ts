@@ -0,0 +1,64 @@
+// src/registry/os.ts
+/**
+ * 지원 OS / 계열 / 패키지 매니저
+ * - 모듈 스크립트는 OS, 계열(family), "linux" 중 아무 key로나 쓸 수 있음
+ * - 생성 시에는 가장 구체적인 key부터 찾음 (wsl → ubuntu → debian → linux)
+ */
+export type OS = "mac" | "ubuntu" | "debian" | "wsl" | "fedora" | "arch";
+
+export type OSFamily = "mac" | "debian" | "rhel" | "arch";
+
+export type PackageManager = "brew" | "apt" | "dnf" | "pacman";
+
+/** CPU 아키텍처 (실행 시 AILAB_ARCH와 같은 이름) */
+export type CpuArch = "arm64" | "amd64";
+
+export const CPU_ARCHES: CpuArch[] = ["arm64", "amd64"];
+
+/** ScriptByOS 등의 key: 특정 OS / 계열 / 모든 Linux */
+export type OSTarget = OS | OSFamily | "linux";
+
+export type OSInfo = {
+  label: string; // OS 선택 UI 표시용
+  family: OSFamily;
+  pkg: PackageManager;
+  fallback?: OS[]; // family보다 먼저 찾아볼 비슷한 배포판
+};
+
+export const OS_INFO: Record<OS, OSInfo> = {
+  mac: { label: "macOS", family: "mac", pkg: "brew" },
+  ubuntu: { label: "Ubuntu", family: "debian", pkg: "apt" },
+  debian: { label: "Debian", family: "debian", pkg: "apt" },
+  wsl: {
+    label: "WSL (Ubuntu)",
+    family: "debian",
+    pkg: "apt",
+    fallback: ["ubuntu"],
+  },
+  fedora: { label: "Fedora / RHEL", family: "rhel", pkg: "dnf" },
+  arch: { label: "Arch Linux", family: "arch", pkg: "pacman" },
+};
+
+/** OS 선택 UI 순서 */
+export const OS_LIST = Object.keys(OS_INFO) as OS[];
+
+/** 찾아볼 key 순서: os → fallback 배포판 → 계열 → linux (중복 제거) */
+export function osLookupChain(os: OS): OSTarget[] {
+  const info = OS_INFO[os];
+  const chain: OSTarget[] = [os, ...(info.fallback ?? []), info.family];
+  if (info.family !== "mac") chain.push("linux");
+  return [...new Set(chain)];
+}
+
+/** OS별 값 맵에서 가장 구체적인 값 */
+export function pickForOS<T>(
+  byOS: Partial<Record<OSTarget, T>> | undefined,
+  os: OS
+): T | undefined {
+  if (!byOS) return undefined;
+  for (const key of osLookupChain(os)) {
+    const v = byOS[key];
+    if (v !== undefined) return v;
+  }
+  return undefined;
+}
@@ -0,0 +1,83 @@
+// src/registry/presets.ts
+import type { OS, OverwritePolicy } from "./modules";
+
+export type PresetDef = {
+  id: string;
+  name: string;
+  description: string;
+  os?: OS; // 지정하면 적용 시 OS도 전환
+  moduleIds: string[]; // requires는 generator가 알아서 채움
+  vars?: Record<string, string>; // 기본 입력값 ("<module id>.<key>", 비어 있는 칸만 채움)
+  policies?: Record<string, OverwritePolicy>;
+};
+
+/**
+ * 랩에서 자주 쓰는 조합 (신입생 온보딩용)
+ * - 사용자가 저장한 프리셋은 localStorage에 따로 보관
+ */
+export const PRESETS: PresetDef[] = [
+  {
+    id: "beginner.mac",
+    name: "Beginner Mac",
+    description: "새 맥북: 개발 도구 + Git + VS Code + GitHub SSH",
+    os: "mac",
+    moduleIds: [
+      "base.clt",
+      "base.homebrew",
+      "dev.git",
+      "dev.git_config",
+      "dev.github_ssh",
+      "dev.vscode",
+      "verify.summary",
+    ],
+  },
+  {
+    id: "beginner.ubuntu",
+    name: "Beginner Ubuntu",
+    description: "새 Ubuntu: apt 기본 패키지 + Git + VS Code + GitHub SSH",
+    os: "ubuntu",
+    moduleIds: [
+      "base.apt",
+      "dev.git",
+      "dev.git_config",
+      "dev.github_ssh",
+      "dev.vscode",
+      "verify.summary",
+    ],
+  },
+  {
+    id: "python.ai",
+    name: "Python AI research",
+    description: "Python + uv + Git + VS Code (실험/노트북 환경 기본)",
+    moduleIds: [
+      "dev.git",
+      "dev.git_config",
+      "lang.python3",
+      "lang.uv",
+      "dev.vscode",
+      "cli.jq",
+      "verify.summary",
+    ],
+  },
+  {
+    id: "web.full",
+    name: "Full web dev",
+    description: "Node LTS + GitHub 도구 + 검색/편의 CLI 전체",
+    moduleIds: [
+      "dev.git",
+      "dev.git_config",
+      "dev.github_ssh",
+      "dev.gh_cli",
+      "lang.nvm",
+      "lang.node_lts",
+      "dev.vscode",
+      "cli.ripgrep",
+      "cli.jq",
+      "cli.fzf",
+      "cli.bat",
+      "cli.eza",
+      "shell.starship",
+      "verify.summary",
+    ],
+  },
+];
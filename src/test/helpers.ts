@@ -0,0 +1,20 @@
+// src/test/helpers.ts
+import { spawnSync } from "node:child_process";
+
+import { MODULES } from "../registry/modules";
+
+/** 테스트 공용: 스크립트 생성 / 번들 테스트가 같은 입력으로 돌도록 */
+export const ALL_IDS = MODULES.map((m) => m.id);
+
+/** 필수 입력을 모두 채운 값 */
+export const VARS = {
+  "dev.git_config.git_name": "Test User",
+  "dev.git_config.git_email": "test@example.com",
+  "dev.github_ssh.ssh_email": "test@example.com",
+};
+
+/** bash -n: 실행하지 않고 문법만 검사 (통과하면 "") */
+export function bashSyntaxErrors(script: string): string {
+  const r = spawnSync("bash", ["-n"], { input: script, encoding: "utf8" });
+  return r.status === 0 ? "" : r.stderr || `exit ${r.status}`;
+}
@@ -0,0 +1,30 @@
+// src/test/sensitiveInput.ts
+import type * as Registry from "../registry/modules";
+
+/**
+ * 테스트 공용: sensitive 입력이 있는 레지스트리
+ * - 실제 레지스트리에는 비밀값 입력이 없으므로 dev.github_ssh에 하나 붙여서 제거 규칙을 확인
+ * - vi.mock("../registry/modules", ...) factory에서 사용 (이 파일은 레지스트리를 import하지 않음)
+ */
+export const SECRET_KEY = "api_token";
+export const SECRET_ID = `dev.github_ssh.${SECRET_KEY}`; // 저장되는 key
+export const SECRET = `secret_${"a".repeat(32)}`;
+
+export function withSensitiveInput(actual: typeof Registry): typeof Registry {
+  const MODULES = actual.MODULES.map((m) =>
+    m.id === "dev.github_ssh"
+      ? {
+          ...m,
+          inputs: [
+            ...(m.inputs ?? []),
+            { key: SECRET_KEY, label: "API token", sensitive: true },
+          ],
+        }
+      : m
+  );
+  return {
+    ...actual,
+    MODULES,
+    MODULE_BY_ID: new Map(MODULES.map((m) => [m.id, m])),
+  };
+}